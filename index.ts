@@ -1,5 +1,5 @@
 import type CatalogPlugin from '@data-fair/types-catalogs'
-import { importConfigSchema, configSchema, assertConfigValid, type DataFairConfig } from '#types'
+import { importConfigSchema, configSchema, listFiltersSchema, assertConfigValid, type DataFairConfig } from '#types'
 import { type DataFairCapabilities, capabilities } from './lib/capabilities.ts'
 
 // Since the plugin is very frequently imported, each function is imported on demand,
@@ -22,6 +22,16 @@ const plugin: CatalogPlugin<DataFairConfig, DataFairCapabilities> = {
     return getResource(context)
   },
 
+  async publishDataset (context) {
+    const { publishDataset } = await import('./lib/publications.ts')
+    return publishDataset(context)
+  },
+
+  async deletePublication (context) {
+    const { deletePublication } = await import('./lib/publications.ts')
+    return deletePublication(context)
+  },
+
   metadata: {
     title: 'Catalog Data Fair',
     description: 'Data Fair plugin for Data Fair Catalog',
@@ -30,6 +40,7 @@ const plugin: CatalogPlugin<DataFairConfig, DataFairCapabilities> = {
   },
 
   importConfigSchema,
+  listFiltersSchema,
   configSchema,
   assertConfigValid
 }
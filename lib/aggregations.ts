@@ -0,0 +1,82 @@
+import type { DataFairDataset, ImportConfig } from '#types'
+
+type DataFairField = NonNullable<DataFairDataset['schema']>[number]
+export type Aggregation = NonNullable<ImportConfig['aggregation']>
+export type Metric = NonNullable<Aggregation['metrics']>[number]
+
+/** A group of the aggregation: the values of the group-by columns, its number of lines and its metrics by column key. */
+export type AggregatedRow = { values: unknown[], total: number, metrics: Record<string, unknown> }
+
+const metricTitles: Record<Metric['type'], string> = {
+  count: 'Nombre de lignes',
+  sum: 'Somme',
+  avg: 'Moyenne',
+  min: 'Minimum',
+  max: 'Maximum'
+}
+
+/**
+ * Checks if the import configuration requests an aggregated import.
+ * @param importConfig the import configuration
+ * @returns true if group-by columns or metrics are configured
+ */
+export const isAggregated = (importConfig: ImportConfig): boolean => {
+  return !!(importConfig.aggregation?.groupBy?.length || importConfig.aggregation?.metrics?.length)
+}
+
+/**
+ * Lists the metrics of an aggregation, the number of lines is the default metric.
+ * @throws if a metric other than the number of lines has no column
+ */
+export const getMetrics = (aggregation: Aggregation): Metric[] => {
+  const metrics = aggregation.metrics?.length ? aggregation.metrics : [{ type: 'count' as const }]
+  for (const metric of metrics) {
+    if (metric.type !== 'count' && !metric.field?.key) throw new Error(`La colonne de la métrique ${metricTitles[metric.type].toLowerCase()} est nécessaire`)
+  }
+  return metrics
+}
+
+/** The key of the column of a metric in the aggregated file (ex: population_sum). */
+export const getMetricKey = (metric: Metric): string => {
+  if (metric.key) return metric.key
+  return metric.type === 'count' ? 'count' : `${metric.field?.key}_${metric.type}`
+}
+
+/**
+ * Generates the schema of the aggregated file: the group-by columns, then a column for each metric.
+ * @param schema the schema of the dataset
+ * @param aggregation the aggregation of the import configuration
+ * @returns the schema describing the aggregate columns
+ */
+export const getAggregationSchema = (schema: DataFairField[], aggregation: Aggregation): DataFairField[] => {
+  const groupBy = (aggregation.groupBy ?? []).map(groupField => {
+    const field = schema.find(field => field.key === groupField.key)
+    return { key: groupField.key!, type: field?.type ?? 'string', ...(field?.format ? { format: field.format } : {}), title: field?.title ?? groupField.label ?? groupField.key }
+  })
+  const metrics = getMetrics(aggregation).map(metric => {
+    const field = schema.find(field => field.key === metric.field?.key)
+    const fieldTitle = field?.title ?? metric.field?.label ?? metric.field?.key
+    let type = 'number'
+    let format: string | undefined
+    if (metric.type === 'count') type = 'integer'
+    else if (metric.type === 'min' || metric.type === 'max') {
+      type = field?.type ?? 'number'
+      format = field?.format ?? undefined
+    } else if (metric.type === 'sum' && field?.type === 'integer') type = 'integer'
+    return { key: getMetricKey(metric), type, ...(format ? { format } : {}), title: metric.type === 'count' ? metricTitles.count : `${metricTitles[metric.type]} de ${fieldTitle}` }
+  })
+  return [...groupBy, ...metrics]
+}
+
+/**
+ * Flattens the nested groups of a response of the `/values_agg` endpoint, one row per group of the last group-by column.
+ * @param aggs the groups of a level of the response
+ * @param depth the number of group-by columns below this level
+ * @param values the values of the group-by columns of the upper levels
+ * @returns the flattened groups
+ */
+export const flattenValuesAgg = (aggs: any[], depth: number, values: unknown[] = []): { values: unknown[], total: number, metric?: unknown }[] => {
+  return aggs.flatMap(agg => depth > 1
+    ? flattenValuesAgg(agg.aggs ?? [], depth - 1, [...values, agg.value])
+    : [{ values: [...values, agg.value], total: agg.total, metric: agg.metric }])
+}
@@ -0,0 +1,131 @@
+import type { DataFairConfig } from '#types'
+import { type ClientContext, sendRequest } from './client.ts'
+import { DataFairError, toDataFairError } from './errors.ts'
+
+/** The secrets of the catalog, filled by the prepare function from the masked fields of the configuration. */
+export const secretFields = ['apiKey', 'secondaryApiKey', 'password', 'token', 'localApiKey'] as const
+
+/** The session of a service account, shared by all the requests made with the same account. */
+type Session = { password: string, cookie: string, expiresAt: number }
+
+const sessions: Record<string, Session> = {}
+
+/** The session is refreshed when it expires in less than this delay (in ms). */
+const refreshMargin = 60 * 1000
+/** The lifetime of a session whose token cannot be decoded (in ms). */
+const defaultLifetime = 5 * 60 * 1000
+
+/**
+ * Builds the headers authenticating a request to Data Fair according to the authentication mode of the catalog:
+ * - apiKey: the API key is sent in the `x-apiKey` header, or the secondary API key when only this one is set
+ * - password: a session is opened on Simple Directory with the service account, and its cookies are sent
+ * - token: the JWT is sent in the `Authorization` header
+ * When an account is configured, the request is made on behalf of this account with the `x-account` header.
+ * This function is called before each request, the sessions are cached and refreshed when they are about to expire.
+ * @param catalogConfig the Data Fair configuration
+ * @param secrets the secrets of the catalog (API key, password or token)
+ * @returns the headers to add to the request
+ */
+export const getAuthHeaders = async (catalogConfig: DataFairConfig, secrets: Record<string, string>): Promise<Record<string, string>> => {
+  const headers: Record<string, string> = {}
+  const authMode = catalogConfig.authMode ?? 'apiKey'
+  if (authMode === 'apiKey' && (secrets.apiKey || secrets.secondaryApiKey)) {
+    headers['x-apiKey'] = secrets.apiKey || secrets.secondaryApiKey
+  } else if (authMode === 'password') {
+    if (!catalogConfig.email || !secrets.password) {
+      throw new Error('L\'email et le mot de passe du compte de service sont nécessaires pour ce mode d\'authentification')
+    }
+    headers.Cookie = await getSessionCookie({ catalogConfig, secrets }, catalogConfig.email, secrets.password)
+  } else if (authMode === 'token' && secrets.token) {
+    headers.Authorization = `Bearer ${secrets.token}`
+  }
+  if (catalogConfig.account?.id) {
+    const { type, id, department } = catalogConfig.account
+    headers['x-account'] = encodeURIComponent(JSON.stringify(department ? { type, id, department } : { type, id }))
+  }
+  return headers
+}
+
+/**
+ * Returns the secrets to send a request again with the secondary API key, during the rotation of the API key.
+ * @param catalogConfig the Data Fair configuration
+ * @param secrets the secrets of the catalog
+ * @returns the secrets with the secondary key as API key, undefined if there is no other key to try
+ */
+export const getFallbackSecrets = (catalogConfig: DataFairConfig, secrets: Record<string, string>): Record<string, string> | undefined => {
+  if ((catalogConfig.authMode ?? 'apiKey') !== 'apiKey') return undefined
+  // without API key, the secondary key is already sent by getAuthHeaders
+  if (!secrets.apiKey || !secrets.secondaryApiKey || secrets.secondaryApiKey === secrets.apiKey) return undefined
+  return { ...secrets, apiKey: secrets.secondaryApiKey }
+}
+
+/**
+ * Checks if the catalog has credentials for its authentication mode.
+ * @param catalogConfig the Data Fair configuration
+ * @param secrets the secrets of the catalog
+ * @returns true if the requests are authenticated
+ */
+export const hasCredentials = (catalogConfig: DataFairConfig, secrets: Record<string, string>): boolean => {
+  const authMode = catalogConfig.authMode ?? 'apiKey'
+  if (authMode === 'password') return !!catalogConfig.email && !!secrets.password
+  if (authMode === 'apiKey') return !!secrets.apiKey || !!secrets.secondaryApiKey
+  return !!secrets[authMode]
+}
+
+/**
+ * Returns the session cookies of a service account, opening a new session or refreshing the current one if needed.
+ * @param context the Data Fair configuration, Simple Directory is served under `<url>/simple-directory`, and its secrets
+ * @param email the email of the service account
+ * @param password the password of the service account
+ * @returns the value of the Cookie header
+ */
+const getSessionCookie = async ({ catalogConfig, secrets }: ClientContext, email: string, password: string): Promise<string> => {
+  const url = `${catalogConfig.url}/simple-directory/api/auth`
+  const key = `${url}|${email}`
+  const session = sessions[key]
+  if (session && session.password === password) {
+    if (session.expiresAt - refreshMargin > Date.now()) return session.cookie
+    try {
+      const res = await sendRequest({ catalogConfig, secrets }, { method: 'post', url: `${url}/keepalive`, headers: { Cookie: session.cookie } })
+      sessions[key] = { password, ...readSession(res.headers['set-cookie'], session.cookie) }
+      return sessions[key].cookie
+    } catch (e) {
+      console.warn('Session refresh failed, a new session is opened', e instanceof Error ? e.message : e)
+    }
+  }
+
+  try {
+    const res = await sendRequest({ catalogConfig, secrets }, { method: 'post', url: `${url}/password`, data: { email, password } })
+    sessions[key] = { password, ...readSession(res.headers['set-cookie']) }
+  } catch (e: any) {
+    delete sessions[key]
+    console.error('Error while opening the session of the service account', e)
+    const error = toDataFairError(e)
+    if (error instanceof DataFairError) throw error
+    throw new Error(`Erreur lors de l'authentification du compte de service (${e instanceof Error ? e.message : e})`)
+  }
+  return sessions[key].cookie
+}
+
+/**
+ * Reads the session cookies set by Simple Directory and the expiration date of the session from the id_token cookie.
+ * @param setCookie the Set-Cookie headers of the response
+ * @param previousCookie the current cookies, kept if the response does not set new ones
+ */
+const readSession = (setCookie: string[] | undefined, previousCookie?: string): Omit<Session, 'password'> => {
+  const cookies = (setCookie ?? [])
+    .map(cookie => cookie.split(';')[0].trim())
+    .filter(cookie => cookie.startsWith('id_token'))
+  const cookie = cookies.length ? cookies.join('; ') : previousCookie
+  if (!cookie) throw new Error('Aucun jeton de session retourné par Simple Directory')
+
+  let expiresAt = Date.now() + defaultLifetime
+  const idToken = cookie.split('; ').find(c => c.startsWith('id_token='))?.slice('id_token='.length)
+  try {
+    const payload = JSON.parse(Buffer.from(idToken?.split('.')[1] ?? '', 'base64url').toString())
+    if (payload.exp) expiresAt = payload.exp * 1000
+  } catch (e) {
+    // the token is not a readable JWT, the default lifetime is used
+  }
+  return { cookie, expiresAt }
+}
@@ -10,8 +10,11 @@ export const capabilities = [
   'import',
   'search',
   'pagination',
+  'additionalFilters',
   'importConfig',
   'thumbnail',
+  'publishDataset',
+  'deletePublication',
 ] satisfies Capability[]
 
 export type DataFairCapabilities = typeof capabilities
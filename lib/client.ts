@@ -0,0 +1,163 @@
+import type { DataFairConfig } from '#types'
+import axios from '@data-fair/lib-node/axios.js'
+import type { Readable } from 'stream'
+import zlib from 'zlib'
+import { getAuthHeaders, getFallbackSecrets } from './auth.ts'
+
+export type RequestConfig = NonNullable<Parameters<typeof axios.request>[0]>
+export type Response = Awaited<ReturnType<typeof axios.request<any>>>
+
+/** The compressed encodings accepted for the downloads, see decompressStream. */
+export const acceptedEncodings = 'gzip, br'
+
+/** The context of the requests to Data Fair: the catalog configuration and its secrets. */
+export type ClientContext = { catalogConfig: DataFairConfig, secrets: Record<string, string> }
+
+export const defaultUserAgent = 'catalog-data-fair'
+const defaultTimeout = 60 // s
+const defaultMaxConcurrency = 4
+
+/**
+ * An error of a request to Data Fair, with the url of the request
+ * and the HTTP status or the network error code when there is one.
+ */
+export class DataFairRequestError extends Error {
+  url: string
+  status?: number
+  code?: string
+
+  constructor (message: string, url: string, { status, code }: { status?: number, code?: string } = {}) {
+    super(message)
+    this.name = 'DataFairRequestError'
+    this.url = url
+    this.status = status
+    this.code = code
+  }
+}
+
+/**
+ * Builds the url of an endpoint of the Data Fair API.
+ * The API is served under `<url>/data-fair/api/v1`, unless another API url is configured
+ * (portal served under a custom domain without `/data-fair`).
+ * @param catalogConfig the Data Fair configuration
+ * @param path the path of the endpoint, an absolute url (next page links) is returned as is
+ * @returns the url of the endpoint
+ */
+export const getApiUrl = (catalogConfig: DataFairConfig, path = ''): string => {
+  if (/^https?:\/\//.test(path)) return path
+  const base = (catalogConfig.apiUrl || `${catalogConfig.url}/data-fair/api/v1`).replace(/\/+$/, '')
+  return path ? `${base}/${path.replace(/^\/+/, '')}` : base
+}
+
+/** The requests waiting for a slot and the requests in progress, by API url. */
+const limiters: Record<string, { active: number, queue: (() => void)[], nextStart: number }> = {}
+
+/**
+ * Waits for a slot to send a request to a portal, according to its concurrency and rate limits.
+ * @returns the function releasing the slot
+ */
+const acquireSlot = async (catalogConfig: DataFairConfig): Promise<() => void> => {
+  const limiter = limiters[getApiUrl(catalogConfig)] ??= { active: 0, queue: [], nextStart: 0 }
+  const maxConcurrency = catalogConfig.network?.maxConcurrency || defaultMaxConcurrency
+  if (limiter.active < maxConcurrency) limiter.active++
+  else await new Promise<void>(resolve => limiter.queue.push(resolve))
+
+  const maxRequestsPerSecond = catalogConfig.network?.maxRequestsPerSecond
+  if (maxRequestsPerSecond) {
+    const now = Date.now()
+    const wait = limiter.nextStart - now
+    limiter.nextStart = Math.max(now, limiter.nextStart) + 1000 / maxRequestsPerSecond
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait))
+  }
+
+  return () => {
+    const next = limiter.queue.shift()
+    // the slot is given to the next waiting request
+    if (next) next()
+    else limiter.active--
+  }
+}
+
+/** The key of the password of the proxy in the secrets of the catalog. */
+export const proxySecretKey = 'network.proxyPassword'
+
+/** Converts the proxy of the network settings to the axios proxy option, the password of the proxy is in the secrets of the catalog. */
+export const getProxy = ({ catalogConfig, secrets }: ClientContext): RequestConfig['proxy'] => {
+  const { proxy, proxyUsername } = catalogConfig.network ?? {}
+  if (!proxy) return undefined // the HTTP_PROXY and HTTPS_PROXY environment variables are used by axios
+  const proxyUrl = new URL(proxy)
+  return {
+    protocol: proxyUrl.protocol.replace(':', ''),
+    host: proxyUrl.hostname,
+    port: Number(proxyUrl.port) || (proxyUrl.protocol === 'https:' ? 443 : 80),
+    auth: proxyUsername ? { username: proxyUsername, password: secrets[proxySecretKey] ?? '' } : undefined
+  }
+}
+
+/**
+ * Sends a request to a portal with the network settings of the catalog (timeout, limits, proxy, User-Agent),
+ * without authentication. The slot of the request is released when the response headers are received,
+ * the streamed bodies are not counted in the concurrency limit.
+ * @param context the catalog configuration and its secrets (for the password of the proxy)
+ * @param config the axios config of the request, its url is resolved with getApiUrl
+ * @returns the response
+ * @throws a DataFairRequestError
+ */
+export const sendRequest = async ({ catalogConfig, secrets }: ClientContext, config: RequestConfig): Promise<Response> => {
+  const url = getApiUrl(catalogConfig, config.url)
+  const release = await acquireSlot(catalogConfig)
+  try {
+    return await axios.request<any>({
+      ...config,
+      url,
+      timeout: (catalogConfig.network?.timeout ?? defaultTimeout) * 1000,
+      proxy: getProxy({ catalogConfig, secrets }),
+      headers: { 'User-Agent': catalogConfig.network?.userAgent || defaultUserAgent, ...config.headers }
+    })
+  } catch (e: any) {
+    throw new DataFairRequestError(e instanceof Error ? e.message : `${e}`, url, { status: e?.status ?? e?.response?.status, code: e?.code })
+  } finally {
+    release()
+  }
+}
+
+/**
+ * Sends an authenticated request to the Data Fair API of the catalog.
+ * During the rotation of the API key, a request refused with the API key (HTTP 401) is sent again with the secondary key.
+ * @param context the catalog configuration and its secrets
+ * @param config the axios config of the request, its url is a path of the API or an absolute url
+ * @returns the response
+ * @throws a DataFairRequestError
+ */
+export const dataFairRequest = async ({ catalogConfig, secrets }: ClientContext, config: RequestConfig): Promise<Response> => {
+  const headers = await getAuthHeaders(catalogConfig, secrets)
+  try {
+    return await sendRequest({ catalogConfig, secrets }, { ...config, headers: { ...headers, ...config.headers } })
+  } catch (e) {
+    const fallbackSecrets = getFallbackSecrets(catalogConfig, secrets)
+    if (!(e instanceof DataFairRequestError && e.status === 401 && fallbackSecrets)) throw e
+    console.warn(`The API key was refused by ${e.url}, the request is sent again with the secondary API key`)
+    const fallbackHeaders = await getAuthHeaders(catalogConfig, fallbackSecrets)
+    return await sendRequest({ catalogConfig, secrets }, { ...config, headers: { ...fallbackHeaders, ...config.headers } })
+  }
+}
+
+/**
+ * Decompresses the streamed body of a response requested with `decompress: false`, according to its content encoding.
+ * The bytes transferred on the network (compressed) are counted, to be compared with the content length of the response.
+ * @param response the streamed response
+ * @returns the decompressed body, and a function returning the number of bytes transferred so far
+ */
+export const decompressStream = (response: Response): { stream: Readable, transferred: () => number } => {
+  const body: Readable = response.data
+  let transferred = 0
+  body.on('data', (chunk: Buffer) => { transferred += chunk.length })
+  const encoding = String(response.headers['content-encoding'] ?? '').trim().toLowerCase()
+  let decoder: zlib.Gunzip | zlib.BrotliDecompress | zlib.Inflate | undefined
+  if (encoding === 'gzip' || encoding === 'x-gzip') decoder = zlib.createGunzip()
+  else if (encoding === 'br') decoder = zlib.createBrotliDecompress()
+  else if (encoding === 'deflate') decoder = zlib.createInflate()
+  if (!decoder) return { stream: body, transferred: () => transferred }
+  body.on('error', (err) => decoder.destroy(err))
+  return { stream: body.pipe(decoder), transferred: () => transferred }
+}
@@ -0,0 +1,192 @@
+import type { DataFairConfig } from '#types'
+import type { DataFairCapabilities } from './capabilities.ts'
+import { hasCredentials } from './auth.ts'
+import { type ClientContext, DataFairRequestError, dataFairRequest } from './client.ts'
+import { AuthenticationError, DataFairError, PortalUnreachableError, toDataFairError } from './errors.ts'
+
+/** The oldest major version of Data Fair supported by the plugin (catalog API, aggregations and pagination cursors). */
+const minMajorVersion = 4
+
+/**
+ * The result of the checks of a portal when the catalog is configured.
+ * - url: the url of the checked portal
+ * - error: the error making the portal unusable, undefined if the catalog can be used
+ * - version: the version of Data Fair, undefined if it cannot be read
+ * - rootUrl: the url of the Data Fair root, when the configured url points at a page of the portal instead
+ * - credentials: the status of the credentials of the catalog ('none' when the requests are anonymous)
+ * - permissions: the permissions of the credentials, undefined when they cannot be determined,
+ *   readPrivate is false when the requests are anonymous (only the public datasets can be listed)
+ * - warnings: the limitations of the catalog that do not prevent its use
+ */
+export type PortalDiagnostic = {
+  url: string
+  error?: Error
+  version?: string
+  rootUrl?: string
+  credentials: 'none' | 'accepted' | 'refused'
+  permissions: { read: boolean, readPrivate?: boolean, write?: boolean, admin?: boolean }
+  warnings: string[]
+}
+
+/**
+ * Checks a portal: its version, its url, and the validity and the permissions of the credentials.
+ * Only the listing of the datasets is required, the other checks only complete the diagnostic.
+ * @param context the catalog configuration and its secrets
+ * @returns the diagnostic of the portal
+ */
+export const diagnosePortal = async (context: ClientContext): Promise<PortalDiagnostic> => {
+  const { catalogConfig, secrets } = context
+  const diagnostic: PortalDiagnostic = {
+    url: catalogConfig.url,
+    credentials: hasCredentials(catalogConfig, secrets) ? 'accepted' : 'none',
+    permissions: { read: false },
+    warnings: []
+  }
+
+  try {
+    await getJson(context, '/catalog/datasets?size=1&select=id')
+    diagnostic.permissions.read = true
+  } catch (e) {
+    console.error(`Erreur URL pendant la configuration (${catalogConfig.url}) : `, e instanceof Error ? e.message : e)
+    const error = toDataFairError(e)
+    diagnostic.error = error instanceof Error ? error : new Error(String(e))
+    if (error instanceof AuthenticationError) diagnostic.credentials = 'refused'
+    else diagnostic.rootUrl = await findRootUrl(context)
+    return diagnostic
+  }
+
+  diagnostic.version = await getVersion(context)
+  if (diagnostic.version && Number(diagnostic.version.split('.')[0]) < minMajorVersion) {
+    diagnostic.error = new Error(`La version ${diagnostic.version} de Data Fair n'est pas supportée, la version ${minMajorVersion} ou une version plus récente est nécessaire`)
+    return diagnostic
+  }
+
+  if (diagnostic.credentials === 'accepted') {
+    Object.assign(diagnostic.permissions, await getPermissions(context))
+    if (diagnostic.permissions.write === false) diagnostic.warnings.push('Les identifiants ne permettent pas de modifier des jeux de données, la publication est désactivée')
+  } else {
+    diagnostic.permissions.readPrivate = false
+    diagnostic.warnings.push('Aucun identifiant n\'est configuré, seuls les jeux de données publics sont accessibles et la publication est désactivée')
+    if (catalogConfig.scope?.visibility === 'private') {
+      diagnostic.error = new Error('Le catalogue est restreint aux jeux de données privés, des identifiants sont nécessaires pour y accéder')
+    }
+  }
+  return diagnostic
+}
+
+/**
+ * Removes the capabilities that cannot be used with the permissions of the credentials:
+ * the publication needs credentials allowed to write datasets.
+ * @param capabilities the capabilities of the catalog
+ * @param diagnostic the diagnostic of the portal of the catalog
+ * @returns the capabilities available on this portal
+ */
+export const getAvailableCapabilities = (capabilities: DataFairCapabilities, diagnostic: PortalDiagnostic): DataFairCapabilities => {
+  const canPublish = diagnostic.credentials === 'accepted' && diagnostic.permissions.write !== false
+  if (canPublish) return capabilities
+  return capabilities.filter(capability => capability !== 'publishDataset' && capability !== 'deletePublication')
+}
+
+/**
+ * Formats the diagnostic of a portal, one line per check.
+ * @param diagnostic the diagnostic of the portal
+ * @returns the French message of the diagnostic
+ */
+export const formatDiagnostic = (diagnostic: PortalDiagnostic): string => {
+  const yesNo = (value?: boolean) => value === undefined ? 'inconnu' : value ? 'oui' : 'non'
+  const credentials = { none: 'aucun', accepted: 'acceptés', refused: 'refusés' }[diagnostic.credentials]
+  const lines = [
+    `Diagnostic du portail ${diagnostic.url} :`,
+    `- Version de Data Fair : ${diagnostic.version ?? 'inconnue'}`,
+    `- Identifiants : ${credentials}`,
+    `- Lecture : ${yesNo(diagnostic.permissions.read)}, jeux de données privés : ${yesNo(diagnostic.permissions.readPrivate)}, écriture : ${yesNo(diagnostic.permissions.write)}, administration : ${yesNo(diagnostic.permissions.admin)}`
+  ]
+  if (diagnostic.rootUrl) lines.push(`- L'URL pointe vers une page du portail et non vers la racine de Data Fair, utilisez ${diagnostic.rootUrl}`)
+  for (const warning of diagnostic.warnings) lines.push(`- ${warning}`)
+  return lines.join('\n')
+}
+
+/**
+ * Converts the error of a diagnostic to the error of the configuration, with the guidance to fix it and the diagnostic.
+ * @param diagnostic the diagnostic of a portal with an error
+ * @returns the error to throw
+ */
+export const toConfigurationError = (diagnostic: PortalDiagnostic): Error => {
+  const error = diagnostic.error!
+  const message = error instanceof DataFairError
+    ? `Configuration invalide : ${error.message}. ${error.guidance}`
+    : `Configuration invalide, veuillez vérifier l’URL du catalogue et les identifiants si nécessaire (${error.message})`
+  return new Error(`${message}\n${formatDiagnostic(diagnostic)}`, { cause: error })
+}
+
+/**
+ * Requests an endpoint of the Data Fair API and checks that the response is JSON,
+ * a portal served under a custom domain answers with its HTML pages to the unknown paths.
+ */
+const getJson = async (context: ClientContext, url: string): Promise<any> => {
+  const res = await dataFairRequest(context, { url })
+  if (typeof res.data !== 'object' || res.data === null) {
+    throw new PortalUnreachableError({ url, cause: new Error('la réponse n\'est pas celle d\'une API Data Fair') })
+  }
+  return res.data
+}
+
+/** Reads the version of Data Fair in the description of its API, undefined if it is not available. */
+const getVersion = async (context: ClientContext): Promise<string | undefined> => {
+  try {
+    const apiDocs = await getJson(context, '/api-docs.json')
+    return typeof apiDocs.info?.version === 'string' ? apiDocs.info.version : undefined
+  } catch (e) {
+    console.warn('The version of Data Fair cannot be read', e instanceof Error ? e.message : e)
+  }
+}
+
+/**
+ * Determines the write and admin permissions of the credentials:
+ * - write: from the permissions of the credentials on a dataset of the account (unknown if the account has no dataset)
+ * - admin: from the access to the settings of the account on behalf of which the requests are made (unknown without account)
+ */
+const getPermissions = async (context: ClientContext): Promise<PortalDiagnostic['permissions']> => {
+  const permissions: PortalDiagnostic['permissions'] = { read: true }
+  try {
+    const data = await getJson(context, '/datasets?size=1&mine=true&select=id,userPermissions')
+    const userPermissions: string[] | undefined = data.results?.[0]?.userPermissions
+    if (userPermissions) permissions.write = userPermissions.includes('writeData')
+  } catch (e) {
+    console.warn('The write permission cannot be checked', e instanceof Error ? e.message : e)
+  }
+  const account = context.catalogConfig.account
+  if (account?.id) {
+    try {
+      await getJson(context, `/settings/${account.type ?? 'organization'}/${account.department ? `${account.id}:${account.department}` : account.id}`)
+      permissions.admin = true
+    } catch (e) {
+      if (e instanceof DataFairRequestError && e.status === 403) permissions.admin = false
+      else console.warn('The admin permission cannot be checked', e instanceof Error ? e.message : e)
+    }
+  }
+  return permissions
+}
+
+/**
+ * Finds the root of Data Fair when the configured url points at a page of the portal (ex: https://example.com/datasets).
+ * @returns the url of the root, undefined if the url has no path or if Data Fair is not served at the root of the domain
+ */
+const findRootUrl = async ({ catalogConfig, secrets }: ClientContext): Promise<string | undefined> => {
+  if (catalogConfig.apiUrl) return undefined
+  let origin: string
+  try {
+    const url = new URL(catalogConfig.url)
+    if (url.pathname === '/' || url.pathname === '') return undefined
+    origin = url.origin
+  } catch (e) {
+    return undefined
+  }
+  const rootConfig: DataFairConfig = { ...catalogConfig, url: origin }
+  try {
+    await getJson({ catalogConfig: rootConfig, secrets }, '/catalog/datasets?size=1&select=id')
+    return origin
+  } catch (e) {
+    return undefined
+  }
+}
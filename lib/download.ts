@@ -1,81 +1,308 @@
 import type { DataFairConfig, DataFairDataset, ImportConfig } from '#types'
-import type { CatalogPlugin, GetResourceContext, Resource } from '@data-fair/types-catalogs'
-import axios from '@data-fair/lib-node/axios.js'
+import type { CatalogPlugin, GetResourceContext, LogFunctions, Resource } from '@data-fair/types-catalogs'
 import * as fs from 'fs'
-import { join } from 'path'
-import { Transform } from 'stream'
-import slugify from 'slugify'
+import { basename, join } from 'path'
+import { pipeline } from 'stream/promises'
+import zlib from 'zlib'
+import { type OutputFormat, formats, hasGeometry } from './formats.ts'
+import { type ResourceMetadata, getResourceMetadata } from './metadata.ts'
+import { getColumnsMapping, getFieldKey, transformSchema } from './transforms.ts'
+import { type MergedSource, mergeSchemas } from './merge.ts'
+import { type AggregatedRow, flattenValuesAgg, getAggregationSchema, getMetricKey, getMetrics, isAggregated } from './aggregations.ts'
+import { acceptedEncodings, dataFairRequest, decompressStream, getApiUrl } from './client.ts'
+import { DataFairError, InvalidFilterError, logError, toDataFairError } from './errors.ts'
+import { withRetry } from './retry.ts'
+import { resolveResource } from './portals.ts'
+import { assertInScope } from './scope.ts'
+
+/**
+ * The resource returned by an import.
+ * - dataUpdatedAt: the last update date of the remote data
+ * - updatedSince: if defined, the file only contains the lines updated since this date
+ * - attachmentsFilePath: the path to the zip archive of the files referenced by the attachment column of the lines
+ * - metadataAttachments: the files attached to the metadata of the dataset (documentation, etc.)
+ * - compression: the compression of the file, its format is the format of the uncompressed file
+ * - uncompressedSize: the size of the uncompressed file, the size of the resource is the size of the compressed file
+ * The documentation of the dataset is completed with the fields of ResourceMetadata.
+ */
+type ImportedResource = Resource & ResourceMetadata & {
+  dataUpdatedAt?: string,
+  updatedSince?: string,
+  attachmentsFilePath?: string,
+  metadataAttachments?: { name: string, title: string, mimeType?: string, filePath: string }[],
+  compression?: 'gzip',
+  uncompressedSize?: number
+}
+
+/**
+ * The options of the download of the lines of a dataset.
+ * - expectedCount: the expected number of rows, if known, to detect truncated downloads
+ * - columns: the columns renamed or dropped by the schema transformations (see getColumnsMapping)
+ * - maxRows: the download stops after this number of rows (sampling)
+ * - deduplicate: the keys of the columns on which the duplicated rows are removed, the first row is kept
+ */
+type LinesOptions = {
+  expectedCount?: number
+  columns?: { source: string, key: string }[]
+  maxRows?: number
+  deduplicate?: string[]
+}
+
+/**
+ * The columns added before the columns of the dataset when importing the revisions history of a REST dataset.
+ */
+const revisionFields = [
+  { key: 'line_id', type: 'string', title: 'Identifiant de la ligne' },
+  { key: 'revision_action', type: 'string', title: 'Action' },
+  { key: 'revision_date', type: 'string', format: 'date-time', title: 'Date de la révision' },
+  { key: 'revision_user', type: 'string', title: 'Auteur de la révision' }
+]
 
 /**
  * Retrieves a resource by first fetching its metadata and then downloading the actual resource.
  * The downloaded file path is added to the dataset metadata before returning.
+ * For REST datasets, the import configuration can also restrict the lines to the ones updated after a date,
+ * or import the history of the revisions of the lines instead of their current state.
+ * The lines of other datasets can be merged in the same file (see getMergedResource),
+ * and a summary of the lines can be imported instead of the lines (see downloadAggregation).
+ * The downloaded file can be compressed (see compressResource).
+ * The datasets of the federated portals are imported from their portal, their id is prefixed with the id of the portal.
  *
  * @param context - The context containing configuration and parameters required to fetch and download the resource.
  * @returns A promise that resolves to the dataset metadata with the downloaded file path included.
  */
 export const getResource = async (context: GetResourceContext<DataFairConfig>): ReturnType<CatalogPlugin['getResource']> => {
   context.log.step('Import de la ressource')
+  const { portal, datasetId } = resolveResource(context, context.resourceId)
+  const portalContext = { ...context, catalogConfig: portal.catalogConfig, secrets: portal.secrets, resourceId: datasetId }
+  const resource = await importResource(portalContext)
+  resource.id = context.resourceId
+  if (context.importConfig.compress) await compressResource(resource, portalContext)
+  return resource
+}
+
+/**
+ * Imports the metadata of the resource and downloads its file, see getResource.
+ */
+const importResource = async (context: GetResourceContext<DataFairConfig>): Promise<ImportedResource> => {
+  if (context.importConfig.merge?.datasets?.length) return await getMergedResource(context)
+
+  const { resource, dataset } = await getMetaData(context)
+  const isRest = !!dataset.isRest
+  const restConfig = context.importConfig.rest
+  if ((restConfig?.history || restConfig?.updatedAfter) && !isRest) {
+    await context.log.warning('Les options des jeux de données éditables sont ignorées, ce jeu de données n\'est pas éditable')
+  }
+  const history = isRest && !!restConfig?.history
+  if (history && !dataset.rest?.history) {
+    throw new Error('L\'historique des révisions n\'est pas activé sur ce jeu de données')
+  }
 
-  const { resource, file } = await getMetaData(context)
-  resource.filePath = await downloadResource(context, file, resource)
+  if (isAggregated(context.importConfig)) {
+    if (history) throw new Error('L\'historique des révisions ne peut pas être agrégé')
+    resource.schema = getAggregationSchema(dataset.schema ?? [], context.importConfig.aggregation!)
+    resource.size = undefined
+    resource.filePath = await downloadAggregation(context, resource)
+    return resource
+  }
+  if (isRest && restConfig?.updatedAfter) resource.updatedSince = restConfig.updatedAfter
+  if (history) resource.schema = [...revisionFields, ...(resource.schema ?? [])]
+  resource.filePath = await downloadResource(context, dataset, resource, history)
+  if (context.importConfig.attachments) await downloadAttachments(context, dataset, resource)
 
   return resource
 }
 
+/**
+ * Compresses the downloaded file of a resource with gzip, the file is replaced by the compressed file (ex: .csv.gz).
+ * The file is compressed after its download, so that an interrupted download can be resumed at a position of the uncompressed file.
+ * @param resource - The imported resource, its file path, mime type and size are updated
+ * @param log - The log utilitary to display messages
+ */
+const compressResource = async (resource: ImportedResource, { log }: GetResourceContext<DataFairConfig>): Promise<void> => {
+  if (resource.format === 'xlsx') {
+    await log.warning('Le fichier XLSX n\'est pas compressé, ce format est déjà compressé')
+    return
+  }
+  const filePath = resource.filePath + '.gz'
+  try {
+    await pipeline(fs.createReadStream(resource.filePath), zlib.createGzip(), fs.createWriteStream(filePath))
+  } catch (e) {
+    await fs.promises.rm(filePath, { force: true })
+    throw new Error(`Erreur pendant la compression du fichier (${e instanceof Error ? e.message : e})`)
+  }
+  resource.uncompressedSize = (await fs.promises.stat(resource.filePath)).size
+  await fs.promises.rm(resource.filePath)
+  resource.filePath = filePath
+  resource.size = (await fs.promises.stat(filePath)).size
+  resource.mimeType = 'application/gzip'
+  resource.compression = 'gzip'
+  await log.info(`Fichier compressé : ${resource.size} octets (${resource.uncompressedSize} octets non compressés)`, { size: resource.size, uncompressedSize: resource.uncompressedSize })
+}
+
+/**
+ * Imports the lines of several datasets in a single CSV file: the dataset of the import and the datasets of the merge configuration.
+ * The lines are concatenated (union), with an optional column giving the dataset of each line,
+ * or the lines of the dataset of the import are completed with the lines of the other datasets having the same join key (join).
+ * The metadata of the resource are the ones of the dataset of the import, with the merged schema.
+ * @param context - The context of the import
+ * @returns the resource with the merged schema and the path of the merged file
+ */
+const getMergedResource = async (context: GetResourceContext<DataFairConfig>): Promise<ImportedResource> => {
+  const { importConfig, log } = context
+  const merge = importConfig.merge!
+  if ((importConfig.format ?? 'csv') !== 'csv') throw new Error('Les jeux de données fusionnés ne peuvent être importés qu\'au format CSV')
+
+  const datasetIds = [...new Set([context.resourceId, ...merge.datasets!])]
+  const fetched = []
+  for (const datasetId of datasetIds) fetched.push(await getMetaData({ ...context, resourceId: datasetId }))
+  const merged = mergeSchemas(fetched.map(({ dataset }, i) => ({ id: datasetIds[i], schema: dataset.schema ?? [] })), merge)
+  await log.info(`Fusion de ${datasetIds.length} jeux de données (${merge.mode === 'join' ? 'jointure' : 'concaténation'})`, { datasets: datasetIds })
+
+  const resource = fetched[0].resource
+  resource.schema = transformSchema(merged.schema, importConfig.schemaTransforms)
+  resource.size = undefined
+  resource.dataUpdatedAt = fetched.map(({ resource }) => resource.dataUpdatedAt).filter(date => !!date).sort().pop()
+  // the columns of the merged file, renamed or dropped by the schema transformations
+  const columns = getColumnsMapping(merged.schema, importConfig) ?? merged.schema.map(field => ({ source: field.key, key: getFieldKey(field) }))
+  const sourceColumn = merge.mode !== 'join' ? merge.sourceColumn : undefined
+  if (sourceColumn) resource.schema = [{ key: sourceColumn, type: 'string', title: 'Jeu de données source' }, ...resource.schema]
+
+  const filePath = join(context.tmpDir, `${context.resourceId}.csv`)
+  const writer = fs.createWriteStream(filePath)
+  const write = (data: string) => new Promise<void>((resolve, reject) => writer.write(data, (err) => err ? reject(err) : resolve()))
+  const writeRow = (datasetId: string, row: Record<string, any>) => write([
+    ...(sourceColumn ? [datasetId] : []),
+    ...columns.map(column => row[column.source])
+  ].map(toCsvValue).join(',') + '\n')
+
+  try {
+    await context.log.task('downloading', 'Téléchargement en cours...', NaN)
+    await write([...(sourceColumn ? [sourceColumn] : []), ...columns.map(column => column.key)].map(toCsvValue).join(',') + '\n')
+    if (merge.mode === 'join') {
+      // the lines of the other datasets are indexed by their join key, then merged in the lines of the dataset of the import
+      const joined = new Map<string, Record<string, any>>()
+      let duplicates = 0
+      for (const source of merged.sources.slice(1)) {
+        const seen = new Set<string>()
+        await forEachMergedLine({ ...context, resourceId: source.datasetId }, source, async (row) => {
+          const value = String(row[merge.joinKey!])
+          if (seen.has(value)) duplicates++
+          else joined.set(value, { ...joined.get(value), ...row })
+          seen.add(value)
+        })
+      }
+      if (duplicates) await log.warning(`${duplicates} lignes ignorées, leur clé de jointure est déjà présente dans leur jeu de données`)
+      await forEachMergedLine(context, merged.sources[0], async (row) => {
+        await writeRow(context.resourceId, { ...joined.get(String(row[merge.joinKey!])), ...row })
+      })
+    } else {
+      for (const source of merged.sources) {
+        await forEachMergedLine({ ...context, resourceId: source.datasetId }, source, async (row) => await writeRow(source.datasetId, row))
+      }
+    }
+  } catch (error) {
+    console.error('Error while downloading the merged datasets', error)
+    const typedError = toDataFairError(error, { lines: true })
+    if (typedError instanceof DataFairError) {
+      await logError(log, typedError)
+      throw typedError
+    }
+    log.error(`Erreur pendant le téléchargement du fichier : ${error instanceof Error ? error.message : error}`)
+    throw new Error(`Erreur pendant le téléchargement du fichier: ${error instanceof Error ? error.message : String(error)}`)
+  } finally {
+    await new Promise<void>((resolve) => writer.end(resolve))
+  }
+  resource.filePath = filePath
+  return resource
+}
+
+/**
+ * Fetches the lines of a merged dataset page by page, with the filters of the import configuration.
+ * @param context - The context of the import, with the id of the merged dataset
+ * @param source - The columns of the merged dataset
+ * @param onLine - Called with each line, its properties renamed with the keys of the merged schema
+ */
+const forEachMergedLine = async (context: GetResourceContext<DataFairConfig>, source: MergedSource, onLine: (row: Record<string, any>) => Promise<void>): Promise<void> => {
+  const { catalogConfig, secrets, log } = context
+  let url: string | null = getLinesUrl({ ...context, importConfig: { ...context.importConfig, format: 'jsonl' } }, undefined, source.columns)
+  const visited = new Set<string>()
+  while (url) {
+    const pageUrl: string = url
+    const response: { data: any, headers: Record<string, any> } = await withRetry(() => dataFairRequest({ catalogConfig, secrets }, { url: pageUrl }), log, 'La récupération d\'une page de lignes')
+    const items: Record<string, any>[] = response.data.results ?? []
+    for (const item of items) {
+      await onLine(Object.fromEntries(source.columns.map(column => [column.key, item[column.source]])))
+    }
+    url = items.length ? getNextPageUrl(pageUrl, extractNextPageUrl(response.headers.link) ?? response.data.next, visited) : null
+  }
+}
+
 /**
  * Returns the DataFair Resource with all its metadatas
  * @param catalogConfig the DataFair configuration [ex: { url: 'https://example.com' }]
  * @param resourceId the dataset Id to fetch fields from
  * @returns the Resource corresponding to the id by this configuration
  */
-const getMetaData = async ({ catalogConfig, resourceId, log, secrets }: GetResourceContext<DataFairConfig>): Promise<{ resource: Resource, file: boolean }> => {
+const getMetaData = async ({ catalogConfig, resourceId, importConfig, log, secrets }: GetResourceContext<DataFairConfig> & { importConfig: ImportConfig }): Promise<{ resource: ImportedResource, dataset: DataFairDataset }> => {
   let dataset: DataFairDataset
   try {
-    const url = `${catalogConfig.url}/data-fair/api/v1/datasets/${resourceId}`
-    const config = secrets.apiKey ? { headers: { 'x-apiKey': secrets.apiKey } } : undefined
-    const res = (await axios.get(url, config))
+    const url = getApiUrl(catalogConfig, `/datasets/${resourceId}`)
+    const res = await withRetry(() => dataFairRequest({ catalogConfig, secrets }, { url }), log, 'La récupération des métadonnées')
     if (res.status !== 200) {
       throw new Error(`HTTP error : ${res.status}, ${res.data}`)
     }
     dataset = res.data
     log.info('Import des métadonnées de la ressource', { url })
+    if (dataset.isRest) log.info('Le jeu de données est éditable, ses lignes sont importées page par page')
+    else if (dataset.isVirtual) log.info('Le jeu de données est virtuel, ses lignes sont importées page par page depuis ses jeux de données enfants')
   } catch (e) {
     console.error('Error while fetching metadatas', e)
+    const error = toDataFairError(e, { datasetId: resourceId })
+    if (error instanceof DataFairError) {
+      await logError(log, error)
+      throw error
+    }
     throw new Error(`Erreur lors de la récuperation de la resource DataFair. ${e instanceof Error ? e.message : e}`)
   }
+  try {
+    assertInScope(catalogConfig.scope, dataset)
+  } catch (error) {
+    await logError(log, error)
+    throw error
+  }
 
-  dataset.schema = (dataset.schema ?? []).map((field) => {
-    if (field['x-extension']) {
-      return {
-        ...field,
-        key: slugify.default(field.key.replace(/^_/, ''), { lower: true, strict: true, replacement: '_' }), // Ensure no leading underscore
-        'x-extension': undefined,   // Remove x-extension property if it exists
-      }
-    }
-    return field
-  })
+  const format: OutputFormat = importConfig.format ?? 'csv'
+  if (format === 'geojson' && !hasGeometry(dataset)) {
+    throw new Error('Le format GeoJSON n\'est disponible que pour les jeux de données géographiques')
+  }
 
   let size: number | undefined
+  let dataUpdatedAt = dataset.dataUpdatedAt ?? dataset.updatedAt
   if (dataset.storage?.dataFiles && dataset.storage.dataFiles.length > 0) {
     // get the last elt of the array to get the /full file size
     const lastFile = dataset.storage.dataFiles[dataset.storage.dataFiles.length - 1]
     size = lastFile.size
+    if (lastFile.updatedAt && (!dataUpdatedAt || new Date(lastFile.updatedAt) > new Date(dataUpdatedAt))) dataUpdatedAt = lastFile.updatedAt
   }
 
-  const resource: Resource = {
+  const resource: ImportedResource = {
     id: resourceId,
     title: dataset.title,
     description: dataset.description,
-    format: 'csv',
+    format,
+    mimeType: formats[format].mimeType,
     origin: dataset.page,
     frequency: dataset.frequency,
     image: dataset.image,
     keywords: dataset.keywords,
     analysis: dataset.analysis,
     projection: dataset.projection,
-    size,
-    schema: dataset.schema,
+    size: format === 'csv' ? size : undefined,
+    schema: transformSchema(dataset.schema ?? [], importConfig.schemaTransforms),
     filePath: '',
+    dataUpdatedAt,
+    ...getResourceMetadata(dataset, dataUpdatedAt)
   }
 
   if (dataset.license) {
@@ -85,112 +312,322 @@ const getMetaData = async ({ catalogConfig, resourceId, log, secrets }: GetResou
     }
   }
 
-  return { resource, file: !!dataset.file }
+  return { resource, dataset }
 }
 
 /**
  * Download a specified from a Data Fair service.
- * If the resource has a distant file and no import configuration will download the distant file, otherwise the data will be fetch by set of rows.
+ * If the resource has a distant file, no import configuration and the CSV format is requested, will download the distant file,
+ * otherwise the data will be fetch by set of rows in the requested format.
  * @param context - the download context, contains the download configuration, the resource Id
+ * @param dataset - the Data Fair dataset, used to choose the download method and to check the downloaded file.
  * @param res - the metadatas about the resource.
- * @returns A promise resolving to the file path of the downloaded CSV.
+ * @param history - true to download the revisions history of a REST dataset instead of its lines
+ * @returns A promise resolving to the file path of the downloaded file.
  */
-const downloadResource = async (context: GetResourceContext<DataFairConfig>, file: boolean, res: Resource): Promise<string> => {
-  const filePath = join(context.tmpDir, `${context.resourceId}.csv`)
+const downloadResource = async (context: GetResourceContext<DataFairConfig>, dataset: DataFairDataset, res: ImportedResource, history = false): Promise<string> => {
+  const format: OutputFormat = context.importConfig.format ?? 'csv'
+  const filePath = join(context.tmpDir, `${context.resourceId}.${formats[format].extension}`)
+  const maxRows = getMaxRows(context.importConfig)
+  const deduplicate = context.importConfig.deduplicate?.length ? context.importConfig.deduplicate.map(field => field.key!) : undefined
+  // the number of lines can only be checked if all of them are downloaded, and if they are not edited during the download
+  const expectedCount = !dataset.isRest && !context.importConfig.filters?.length && maxRows === undefined && !deduplicate ? dataset.count : undefined
+  // the columns renamed or dropped by the schema transformations
+  const columns = getColumnsMapping(dataset.schema ?? [], context.importConfig)
+  const selected = columns?.map(column => column.source) ?? context.importConfig.fields?.map(field => field.key)
+  if (deduplicate && selected?.length && deduplicate.some(key => !selected.includes(key))) {
+    throw new Error('Les colonnes de dédoublonnage doivent faire partie des colonnes importées')
+  }
+  // the XLSX file is written as returned by the portal, its rows cannot be deduplicated
+  if (deduplicate && format === 'xlsx') throw new Error('Le dédoublonnage n\'est pas disponible au format XLSX')
+  const linesOptions: LinesOptions = { expectedCount, columns, maxRows, deduplicate }
   try {
-    if (file && !context.importConfig.fields?.length && !context.importConfig.filters?.length) {
+    if (history) {
+      if (format !== 'csv') throw new Error('L\'historique des révisions ne peut être importé qu\'au format CSV')
+      await context.log.task('downloading', 'Téléchargement de l\'historique en cours...', NaN)
+      await downloadResourceRevisions(filePath, res, context, columns ?? (dataset.schema ?? []).map(field => ({ source: field.key, key: getFieldKey(field) })))
+    } else if (format === 'csv' && dataset.file && !context.importConfig.fields?.length && !context.importConfig.filters?.length && !res.updatedSince && !columns && maxRows === undefined && !context.importConfig.sort?.length && !deduplicate) {
       await context.log.task('downloading', 'Téléchargement en cours...', res.size || NaN)
-      await downloadResourceFile(filePath, context)
+      await downloadResourceFile(filePath, getApiUrl(context.catalogConfig, `/datasets/${context.resourceId}/full`), context, res.size)
     } else {
       await context.log.task('downloading', 'Téléchargement en cours...', NaN)
-      await downloadResourceLines(filePath, context)
+      const url = getLinesUrl(context, res.updatedSince, columns)
+      if (format === 'csv') {
+        await downloadResourceLines(filePath, await getPartitionUrls(context, url, res.updatedSince), context, linesOptions)
+      } else if (format === 'xlsx') {
+        if (columns?.some(column => column.key !== column.source)) throw new Error('Les colonnes ne peuvent pas être renommées au format XLSX')
+        await downloadResourceFile(filePath, url, context)
+      } else {
+        await downloadResourceJsonLines(filePath, url, format === 'geojson', context, linesOptions)
+      }
     }
     return filePath
   } catch (error) {
     console.error('Error while downloading the file', error)
+    const typedError = toDataFairError(error, { datasetId: context.resourceId, lines: true })
+    if (typedError instanceof DataFairError) {
+      await logError(context.log, typedError)
+      throw typedError
+    }
     context.log.error(`Erreur pendant le téléchargement du fichier : ${error instanceof Error ? error.message : error}`)
     throw new Error(`Erreur pendant le téléchargement du fichier: ${error instanceof Error ? error.message : String(error)}`)
   }
 }
 
 /**
- * Downloads the rows of a dataset thanks to its full file and saves them as a CSV file in a given file path. The configuration  of the importConfig is not applicable.
- * @param filePath - The path to the temporary file where the CSV will be saved.
- * @param catalogConfig - The DataFair configuration object.
- * @param resourceId - The Id of the dataset to download.
- * @param log - The log utilitary to display messages
- * @returns A promise that resolves when the file is successfully downloaded and saved.
- * @throws If there is an error writing the file or fetching the dataset.
+ * Downloads a summary of the lines of a dataset in a CSV file: one row per group of values of the group-by columns,
+ * with the number of lines and the metrics of each group, computed by Data Fair with the filters of the import configuration.
+ * The groups are fetched from the `/values_agg` endpoint (one request per metric, the number of lines comes with each group),
+ * without group-by column the metrics are computed on all the lines with the `/metric_agg` endpoint.
+ * @param context - the download context, contains the aggregation of the import configuration
+ * @param res - the metadatas about the resource, with the schema of the aggregated file
+ * @returns A promise resolving to the file path of the downloaded file.
  */
-const downloadResourceFile = async (filePath: string, { catalogConfig, resourceId, log, secrets }: GetResourceContext<DataFairConfig>): Promise<void> => {
-  const url = `${catalogConfig.url}/data-fair/api/v1/datasets/${resourceId}/full`
-  const headers = secrets.apiKey ? { 'x-apiKey': secrets.apiKey } : undefined
+const downloadAggregation = async (context: GetResourceContext<DataFairConfig>, res: ImportedResource): Promise<string> => {
+  const { catalogConfig, resourceId, importConfig, secrets, log } = context
+  if ((importConfig.format ?? 'csv') !== 'csv') throw new Error('Les agrégations ne peuvent être importées qu\'au format CSV')
+  const aggregation = importConfig.aggregation!
+  const groupBy = (aggregation.groupBy ?? []).map(field => field.key)
+  const metrics = getMetrics(aggregation)
+  const filePath = join(context.tmpDir, `${resourceId}.csv`)
+  const request = async (path: string) => {
+    const url = getApiUrl(catalogConfig, path) + getFiltersQuery(importConfig)
+    return (await withRetry(() => dataFairRequest({ catalogConfig, secrets }, { url }), log, 'Le calcul de l\'agrégation')).data
+  }
 
-  const response = await axios.get(url, { responseType: 'stream', headers })
+  try {
+    await context.log.task('downloading', 'Calcul de l\'agrégation en cours...', NaN)
+    const rows = new Map<string, AggregatedRow>()
+    // the number of lines is given with the result of any request, a request without metric is only needed if it is the only metric
+    const metricRequests = metrics.filter(metric => metric.type !== 'count')
+    if (groupBy.length) {
+      const size = aggregation.size ?? 1000
+      for (const metric of metricRequests.length ? metricRequests : [undefined]) {
+        let path = `/datasets/${resourceId}/values_agg?field=${groupBy.join(';')}&agg_size=${size}&size=0`
+        if (metric) path += `&metric=${metric.type}&metric_field=${metric.field!.key}`
+        const data = await request(path)
+        if (data.total_other) await log.warning(`Certains groupes ne sont pas importés, le nombre maximal de groupes (${size}) est atteint`)
+        for (const group of flattenValuesAgg(data.aggs ?? [], groupBy.length)) {
+          const id = JSON.stringify(group.values)
+          const row = rows.get(id) ?? { values: group.values, total: group.total, metrics: {} }
+          if (metric) row.metrics[getMetricKey(metric)] = group.metric
+          rows.set(id, row)
+        }
+      }
+    } else {
+      const row: AggregatedRow = { values: [], total: 0, metrics: {} }
+      for (const metric of metricRequests.length ? metricRequests : [undefined]) {
+        const data = metric
+          ? await request(`/datasets/${resourceId}/metric_agg?metric=${metric.type}&field=${metric.field!.key}`)
+          : await request(`/datasets/${resourceId}/lines?size=0`)
+        row.total = data.total
+        if (metric) row.metrics[getMetricKey(metric)] = data.metric
+      }
+      rows.set('', row)
+    }
 
-  if (response.status !== 200) {
-    throw new Error(`Error while fetching data: HTTP ${response.statusText}`)
+    const lines = [(res.schema ?? []).map(field => toCsvValue(field.key)).join(',')]
+    for (const row of rows.values()) {
+      lines.push([...row.values, ...metrics.map(metric => metric.type === 'count' ? row.total : row.metrics[getMetricKey(metric)])].map(toCsvValue).join(','))
+    }
+    await fs.promises.writeFile(filePath, lines.join('\n') + '\n')
+    await log.info(`${rows.size} groupes importés`)
+    return filePath
+  } catch (error) {
+    console.error('Error while downloading the aggregation', error)
+    const typedError = toDataFairError(error, { datasetId: resourceId, lines: true })
+    if (typedError instanceof DataFairError) {
+      await logError(log, typedError)
+      throw typedError
+    }
+    log.error(`Erreur pendant le calcul de l'agrégation : ${error instanceof Error ? error.message : error}`)
+    throw new Error(`Erreur pendant le calcul de l'agrégation: ${error instanceof Error ? error.message : String(error)}`)
   }
+}
 
+/**
+ * Downloads a file from a Data Fair service in a single request and saves it in a given file path.
+ * Used for the full file of a dataset (the configuration of the importConfig is not applicable),
+ * and for the formats whose pages cannot be concatenated (XLSX).
+ * If the download is interrupted by a transient error, it is resumed where it stopped with a HTTP Range request.
+ * @param filePath - The path to the temporary file where the file will be saved.
+ * @param url - The url of the file to download.
+ * @param log - The log utilitary to display messages
+ * @param expectedSize - The expected size of the file in bytes, if known, to detect truncated files.
+ * @returns A promise that resolves when the file is successfully downloaded and saved.
+ * @throws If there is an error writing the file or fetching the dataset, or if the file does not contain all the lines.
+ */
+const downloadResourceFile = async (filePath: string, url: string, { catalogConfig, log, secrets }: GetResourceContext<DataFairConfig>, expectedSize?: number): Promise<void> => {
   let downloaded = 0
+  let transferred = 0
   let lastLogTime = Date.now()
   const logInterval = 500 // ms
 
-  await new Promise<void>((resolve, reject) => {
-    const fileStream = fs.createWriteStream(filePath, { encoding: 'binary' }) // Ensure binary encoding
+  try {
+    await withRetry(async () => {
+      // a resumed download is not compressed, so that the range is a position in the file
+      const headers = downloaded ? { Range: `bytes=${downloaded}-`, 'Accept-Encoding': 'identity' } : { 'Accept-Encoding': acceptedEncodings }
+      const response = await dataFairRequest({ catalogConfig, secrets }, { url, responseType: 'stream', decompress: false, headers })
 
-    response.data.on('data', (chunk: Buffer) => {
-      downloaded += chunk.length
-      const now = Date.now()
-      if (now - lastLogTime > logInterval) {
-        lastLogTime = now
-        log.progress('downloading', downloaded)
-          .catch(err => console.warn('Progress logging failed:', err))
+      if (response.status !== 200 && response.status !== 206) {
+        throw new Error(`Error while fetching data: HTTP ${response.statusText}`)
+      }
+      if (extractNextPageUrl(response.headers.link)) {
+        response.data.destroy()
+        throw new Error('Le jeu de données contient trop de lignes pour ce format, utilisez des filtres ou un autre format')
+      }
+      if (downloaded && response.status !== 206) {
+        await log.warning('Le serveur ne permet pas de reprendre le téléchargement, il recommence depuis le début')
+        downloaded = 0
       }
-    })
 
-    response.data.pipe(fileStream)
+      // the content length is the size of the transferred body, compressed or not
+      const contentLength = Number(response.headers['content-length'])
+      const body = decompressStream(response)
+      // the connection was closed before the end of the response, the download is resumed
+      const interrupted = () => Object.assign(new Error(`Réponse interrompue (${body.transferred()} octets reçus sur ${contentLength})`), { code: 'ECONNRESET' })
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const fileStream = fs.createWriteStream(filePath, { encoding: 'binary', flags: downloaded ? 'a' : 'w' }) // Ensure binary encoding
 
-    fileStream.on('finish', () => {
-      fileStream.close()
-      resolve()
-    })
+          body.stream.on('data', (chunk: Buffer) => {
+            downloaded += chunk.length
+            const now = Date.now()
+            if (now - lastLogTime > logInterval) {
+              lastLogTime = now
+              log.progress('downloading', downloaded)
+                .catch(err => console.warn('Progress logging failed:', err))
+            }
+          })
 
-    response.data.on('error', (err: any) => {
-      fileStream.destroy()
-      fs.unlink(filePath, () => { })
-      reject(err)
-    })
+          body.stream.pipe(fileStream)
 
-    fileStream.on('error', (err) => {
-      response.data.destroy()
-      fs.unlink(filePath, () => { })
-      reject(err)
-    })
-  })
+          fileStream.on('finish', () => {
+            fileStream.close()
+            resolve()
+          })
+
+          body.stream.on('error', (err: any) => {
+            // keep the received bytes to resume the download
+            body.stream.unpipe(fileStream)
+            fileStream.end(async () => {
+              downloaded = (await fs.promises.stat(filePath)).size
+              reject(err)
+            })
+          })
+
+          fileStream.on('error', (err) => {
+            response.data.destroy()
+            reject(err)
+          })
+        })
+      } catch (err) {
+        // an interrupted compressed body fails to be decompressed
+        throw contentLength && body.transferred() < contentLength ? interrupted() : err
+      } finally {
+        transferred += body.transferred()
+      }
+      if (contentLength && body.transferred() < contentLength) throw interrupted()
+    }, log, 'Le téléchargement du fichier')
+  } catch (err) {
+    await fs.promises.rm(filePath, { force: true })
+    throw err
+  }
 
   await log.progress('downloading', downloaded, downloaded)
+  await log.info(`${downloaded} octets téléchargés (${transferred} octets transférés)`, { bytes: downloaded, transferredBytes: transferred })
+  if (expectedSize && downloaded !== expectedSize) {
+    throw new Error(`Le fichier téléchargé est incomplet (${downloaded} octets reçus, ${expectedSize} attendus)`)
+  }
 }
 
 /**
- * Downloads the rows of a dataset matching the given filters and saves them as a CSV file in a given file path.
- * @param filePath - The path to the temporary file where the CSV will be saved.
+ * Builds the url of the first page of lines of a dataset, with the format, the selected fields and the filters of the import configuration.
  * @param catalogConfig - The DataFair configuration object.
  * @param resourceId - The Id of the dataset to download.
- * @param importConfig - The import configuration, including filters to apply.
- * @param log - The log utilitary to display messages
- * @returns A promise that resolves when the file is successfully downloaded and saved.
- * @throws If there is an error writing the file or fetching the dataset.
+ * @param importConfig - The import configuration, including format, fields and filters to apply.
+ * @param updatedSince - If defined, only the lines updated after this date are downloaded (REST datasets only)
+ * @param columns - If defined, the columns to select (see getColumnsMapping)
+ * @returns the url of the first page of lines
  */
-const downloadResourceLines = async (destFile: string, { catalogConfig, resourceId, importConfig, secrets, log }: GetResourceContext<DataFairConfig> & { importConfig: ImportConfig }): Promise<void> => {
-  let url: string | null = `${catalogConfig.url}/data-fair/api/v1/datasets/${resourceId}/lines?format=csv&size=10000`
+const getLinesUrl = ({ catalogConfig, resourceId, importConfig }: GetResourceContext<DataFairConfig> & { importConfig: ImportConfig }, updatedSince?: string, columns?: { source: string }[]): string => {
+  const format: OutputFormat = importConfig.format ?? 'csv'
+  const maxRows = getMaxRows(importConfig)
+  let url = getApiUrl(catalogConfig, `/datasets/${resourceId}/lines?format=${formats[format].linesFormat}&size=${Math.min(maxRows ?? 10000, 10000)}`)
 
-  if (importConfig.fields) {
+  if (importConfig.sampling?.mode === 'random') {
+    // the random number attributed to each line by Data Fair
+    url += '&sort=_rand'
+  } else if (importConfig.sort?.length) {
+    const sort = importConfig.sort.map(sort => (sort.order === 'desc' ? '-' : '') + sort.field.key)
+    // the lines with the same values are sorted by their unique id, so that the order is stable across the pages and the imports
+    if (!importConfig.sort.some(sort => sort.field.key === '_id')) sort.push('_id')
+    url += '&sort=' + sort.join(',')
+  }
+
+  if (columns) {
+    url += '&select=' + columns.map(column => column.source).join(',')
+  } else if (importConfig.fields) {
     url += '&select=' + importConfig.fields.map(field => field.key).join(',')
   }
 
-  const headers = secrets.apiKey ? { 'x-apiKey': secrets.apiKey } : undefined
+  return url + getFiltersQuery(importConfig, updatedSince)
+}
+
+/**
+ * Splits the lines to download in partitions downloaded in parallel, according to the partitions of the import configuration.
+ * The partitions are ranges of values of a numeric or date column between its minimum and its maximum,
+ * the lines without value in this column are in a last partition.
+ * @param context - The download context, contains the import configuration
+ * @param firstPageUrl - The url of the first page of all the lines, see getLinesUrl
+ * @param updatedSince - If defined, only the lines updated after this date are downloaded (REST datasets only)
+ * @returns the url of the first page of each partition, or only the given url if the lines are not partitioned
+ */
+const getPartitionUrls = async ({ catalogConfig, resourceId, importConfig, secrets, log }: GetResourceContext<DataFairConfig>, firstPageUrl: string, updatedSince?: string): Promise<string[]> => {
+  const partitions = importConfig.partitions
+  const key = partitions?.field?.key
+  if (!partitions?.count || partitions.count < 2 || !key) return [firstPageUrl]
+  if (importConfig.sort?.length || getMaxRows(importConfig) !== undefined || importConfig.deduplicate?.length) {
+    await log.warning('Le téléchargement en parallèle est ignoré, il n\'est pas compatible avec l\'ordre des lignes, l\'échantillon ou le dédoublonnage')
+    return [firstPageUrl]
+  }
+
+  const range: Record<string, number> = {}
+  for (const metric of ['min', 'max']) {
+    const url = getApiUrl(catalogConfig, `/datasets/${resourceId}/metric_agg?metric=${metric}&field=${key}`) + getFiltersQuery(importConfig, updatedSince)
+    range[metric] = (await withRetry(() => dataFairRequest({ catalogConfig, secrets }, { url }), log, 'Le calcul des plages de valeurs')).data.metric
+  }
+  if (typeof range.min !== 'number' || typeof range.max !== 'number' || range.min === range.max) return [firstPageUrl]
+
+  const step = (range.max - range.min) / partitions.count
+  const urls = []
+  for (let i = 0; i < partitions.count; i++) {
+    const lower = `&${key}_gte=${range.min + i * step}`
+    urls.push(firstPageUrl + lower + (i < partitions.count - 1 ? `&${key}_lt=${range.min + (i + 1) * step}` : `&${key}_lte=${range.max}`))
+  }
+  urls.push(firstPageUrl + `&${key}_nexists=true`)
+  await log.info(`Téléchargement en parallèle de ${partitions.count} plages de valeurs de la colonne ${key}`, { min: range.min, max: range.max })
+  return urls
+}
+
+/**
+ * Returns the maximum number of lines to import according to the sampling of the import configuration.
+ * @param importConfig - The import configuration
+ * @returns the number of lines, undefined if all the lines are imported
+ */
+const getMaxRows = (importConfig: ImportConfig): number | undefined => {
+  if (!importConfig.sampling?.mode || importConfig.sampling.mode === 'all') return undefined
+  return importConfig.sampling.size ?? 1000
+}
 
+/**
+ * Builds the query params of the filters of the import configuration, shared by the lines and the aggregations endpoints.
+ * @param importConfig - The import configuration, including the filters to apply.
+ * @param updatedSince - If defined, only the lines updated after this date are kept (REST datasets only)
+ * @returns the query params, each one starting with '&'
+ */
+const getFiltersQuery = (importConfig: ImportConfig, updatedSince?: string): string => {
+  let url = ''
   if (importConfig.filters) {
     importConfig.filters.forEach((filter) => {
       switch (filter.type) {
@@ -203,87 +640,597 @@ const downloadResourceLines = async (destFile: string, { catalogConfig, resource
         case 'lte':
           url += `&${filter.field.key}_${filter.type}=${filter.value}`
           break
-        default:
+        case 'eq':
+        case 'neq':
+        case 'gt':
+        case 'lt':
+        case 'contains':
+          url += `&${filter.field.key}_${filter.type}=${encodeURIComponent(filter.value)}`
+          break
+        case 'exists':
+        case 'nexists':
+          url += `&${filter.field.key}_${filter.type}=true`
+          break
+        case 'q':
+          url += `&q=${encodeURIComponent(filter.value)}`
+          break
+        case 'dateRange':
+          if (filter.from) url += `&${filter.field.key}_gte=${filter.from}`
+          if (filter.to) url += `&${filter.field.key}_lte=${filter.to}`
+          break
+        case 'relativeDate':
+          url += `&${filter.field.key}_gte=${encodeURIComponent(getRelativeDate(filter.duration, filter.unit))}`
+          break
+        case 'bbox':
+          url += `&bbox=${filter.minLon},${filter.minLat},${filter.maxLon},${filter.maxLat}`
+          break
+        case 'geoDistance':
+          url += `&geo_distance=${filter.lon},${filter.lat},${filter.distance}`
           break
+        case 'geoIntersects':
+          url += `&geo_intersects=${encodeURIComponent(parseGeometry(filter.geometry))}`
+          break
+        default:
+          throw new InvalidFilterError({
+            fr: `Type de filtre non supporté : ${(filter as { type: string }).type}`,
+            en: `Unsupported filter type: ${(filter as { type: string }).type}`
+          })
       }
     })
   }
 
-  let downloaded = 0
-  let pendingLogPromise: Promise<void> | null = null
+  if (updatedSince) {
+    url += `&_updatedAt_gt=${encodeURIComponent(updatedSince)}`
+  }
+  return url
+}
+
+/**
+ * Computes the start date of a sliding window ending now.
+ * @param duration the number of units of the window
+ * @param unit the unit of the window (days, weeks, months or years)
+ * @returns the start date of the window in ISO format
+ */
+const getRelativeDate = (duration: number, unit: 'days' | 'weeks' | 'months' | 'years'): string => {
+  const date = new Date()
+  switch (unit) {
+    case 'days': date.setDate(date.getDate() - duration); break
+    case 'weeks': date.setDate(date.getDate() - 7 * duration); break
+    case 'months': date.setMonth(date.getMonth() - duration); break
+    case 'years': date.setFullYear(date.getFullYear() - duration); break
+  }
+  return date.toISOString()
+}
+
+/**
+ * Checks that a geometry given in the import configuration is a valid GeoJSON geometry.
+ * @param geometry the GeoJSON geometry as a string
+ * @returns the geometry serialized without spaces, to be sent as a query param
+ */
+const parseGeometry = (geometry: string): string => {
+  let parsed: { type?: string, coordinates?: unknown }
+  try {
+    parsed = JSON.parse(geometry)
+  } catch (e) {
+    throw new InvalidFilterError({ fr: 'Géométrie GeoJSON invalide', en: 'Invalid GeoJSON geometry' }, { cause: e })
+  }
+  if (!parsed?.type || !Array.isArray(parsed.coordinates)) {
+    throw new InvalidFilterError({
+      fr: 'Géométrie GeoJSON invalide, les propriétés "type" et "coordinates" sont attendues',
+      en: 'Invalid GeoJSON geometry, the "type" and "coordinates" properties are expected'
+    })
+  }
+  return JSON.stringify(parsed)
+}
+
+/**
+ * Downloads the rows of a dataset matching the given filters and saves them as a CSV file in a given file path.
+ * Each page is kept in memory until it is complete, so that a page interrupted by a transient error
+ * can be fetched again without corrupting the file nor restarting from the first page.
+ * The pages are followed with the `after` cursor of their next link. The partitions of the lines are downloaded in parallel,
+ * when one of them fails the others are aborted, and the temporary files are removed once all of them are stopped.
+ * @param destFile - The path to the temporary file where the CSV will be saved.
+ * @param firstPageUrls - The urls of the first page of lines of each partition, see getLinesUrl and getPartitionUrls.
+ * @param context - The download context, with the secrets of the catalog and the log utilitary.
+ * @param options - The checks and the transformations of the rows, the renamed columns replace the header of the CSV.
+ * @returns A promise that resolves when the file is successfully downloaded and saved.
+ * @throws If there is an error writing the file or fetching the dataset.
+ */
+const downloadResourceLines = async (destFile: string, firstPageUrls: string[], context: GetResourceContext<DataFairConfig>, options: LinesOptions = {}): Promise<void> => {
+  const progress = createDownloadProgress(context.log)
+  let rows: number
+  if (firstPageUrls.length === 1) {
+    rows = await downloadCsvPages(destFile, firstPageUrls[0], context, options, progress, true)
+  } else {
+    // the partitions are downloaded in parallel in temporary files, then concatenated in their order
+    const partFiles = firstPageUrls.map((url, i) => `${destFile}.part${i}`)
+    const controller = new AbortController()
+    let failure: { error: unknown } | undefined
+    try {
+      const results = await Promise.allSettled(firstPageUrls.map(async (url, i) => {
+        try {
+          return await downloadCsvPages(partFiles[i], url, context, options, progress, i === 0, controller.signal)
+        } catch (error) {
+          // the error of the first failed partition is reported, the other partitions fail because they are aborted
+          failure ??= { error }
+          controller.abort()
+          throw error
+        }
+      }))
+      if (failure) throw failure.error
+      rows = results.reduce((total, result) => total + (result.status === 'fulfilled' ? result.value : 0), 0)
+      const writer = fs.createWriteStream(destFile)
+      for (const partFile of partFiles) await pipeline(fs.createReadStream(partFile), writer, { end: false })
+      await new Promise<void>((resolve) => writer.end(resolve))
+    } finally {
+      for (const partFile of partFiles) await fs.promises.rm(partFile, { force: true })
+    }
+  }
+  await progress.end()
+  if (options.expectedCount !== undefined && rows !== options.expectedCount) {
+    throw new Error(`Le fichier téléchargé est incomplet (${rows} lignes reçues, ${options.expectedCount} attendues)`)
+  }
+}
+
+/**
+ * Downloads the pages of lines of a dataset, or of a partition of its lines, in a CSV file.
+ * @param destFile - The path to the file where the CSV will be saved.
+ * @param firstPageUrl - The url of the first page of lines.
+ * @param secrets - The secrets of the catalog, containing the credentials if any.
+ * @param log - The log utilitary to display messages
+ * @param options - The transformations of the rows, the renamed columns replace the header of the CSV.
+ * @param progress - The progress of the whole download
+ * @param withHeader - false to skip the header of the first page (partitions after the first one)
+ * @param signal - Aborts the download, when another partition failed
+ * @returns the number of downloaded rows, without the header
+ */
+const downloadCsvPages = async (destFile: string, firstPageUrl: string, { catalogConfig, secrets, log }: GetResourceContext<DataFairConfig>, { columns, maxRows, deduplicate }: LinesOptions, progress: DownloadProgress, withHeader: boolean, signal?: AbortSignal): Promise<number> => {
+  let url: string | null = firstPageUrl
+  const visited = new Set<string>()
+  const header = columns && columns.map(column => toCsvValue(column.key)).join(',')
+  const seen = new Set<string>()
+  let duplicates = 0
+  let rows = 0
 
   const writer = fs.createWriteStream(destFile)
-  let isFirstChunk = true
+  const write = (data: Buffer) => new Promise<void>((resolve, reject) => writer.write(data, (err) => err ? reject(err) : resolve()))
+  let isFirstPage = true
 
-  while (url) {
-    const response = await axios.get(url, { responseType: 'stream', headers })
-    if (response.status !== 200) {
-      throw new Error(`Error while fetching data: HTTP ${response.statusText}`)
+  try {
+    while (url) {
+      signal?.throwIfAborted()
+      const pageUrl: string = url
+      const page = await withRetry(async () => {
+        const response = await dataFairRequest({ catalogConfig, secrets }, { url: pageUrl, responseType: 'stream', decompress: false, headers: { 'Accept-Encoding': acceptedEncodings }, signal })
+        if (response.status !== 200) {
+          throw new Error(`Error while fetching data: HTTP ${response.statusText}`)
+        }
+
+        const body = decompressStream(response)
+        const chunks: Buffer[] = []
+        let pageSize = 0
+        await new Promise<void>((resolve, reject) => {
+          body.stream.on('data', (chunk: Buffer) => {
+            chunks.push(chunk)
+            pageSize += chunk.length
+            progress.receiving(pageSize)
+          })
+          body.stream.on('end', () => resolve())
+          body.stream.on('error', (error: any) => {
+            console.error(`Error while fetching lines at ${pageUrl}`, error)
+            reject(error)
+          })
+        })
+        return { data: Buffer.concat(chunks), transferred: body.transferred(), next: extractNextPageUrl(response.headers.link) }
+      }, log, 'La récupération d\'une page de lignes')
+
+      let data: Buffer = page.data
+      // the rows received, before the deduplication and the truncation: a page made of duplicates does not end the download
+      const receivedRows = countCsvRows(data.subarray(getCsvRowEnd(data)))
+      if (deduplicate) {
+        const deduplicated = deduplicateCsvRows(data, deduplicate, seen)
+        data = deduplicated.data
+        duplicates += deduplicated.duplicates
+      }
+      // the header repeated at the beginning of each page is skipped, it can contain quoted new lines
+      const keepHeader = withHeader && isFirstPage
+      if (!keepHeader || header) {
+        data = data.subarray(getCsvRowEnd(data))
+        if (keepHeader) data = Buffer.concat([Buffer.from(header + '\n'), data])
+      }
+      if (maxRows !== undefined) data = truncateCsvRows(data, maxRows - rows + (keepHeader ? 1 : 0))
+      const pageRows = countCsvRows(data) - (keepHeader ? 1 : 0)
+      rows += pageRows
+      await write(data)
+      await progress.add(data.length, pageRows, page.transferred)
+      // an empty page ends the download, even if the portal gives a next page
+      url = (maxRows !== undefined && rows >= maxRows) || !receivedRows ? null : getNextPageUrl(pageUrl, page.next, visited)
+      isFirstPage = false
     }
+  } finally {
+    await new Promise<void>((resolve) => writer.end(resolve))
+  }
+  if (duplicates) await log.info(`${duplicates} lignes en double ignorées`)
+  return rows
+}
 
-    await new Promise<void>((resolve, reject) => {
-      let stream = response.data
-      if (!isFirstChunk) {
-        let skippedHeader = false
-        stream = response.data.pipe(new Transform({
-          transform (chunk, _encoding, callback) {
-            if (!skippedHeader) {
-              const headerEndIndex = chunk.indexOf('\n')
-              if (headerEndIndex !== -1) {
-                chunk = chunk.slice(headerEndIndex + 1)
-                skippedHeader = true
-              }
-            }
-            this.push(chunk)
-            callback()
+/**
+ * Returns the position of the end of the first row of a chunk of CSV (after its new line), ignoring the new lines inside quoted values.
+ */
+const getCsvRowEnd = (data: Buffer): number => {
+  let inQuotes = false
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 0x22) inQuotes = !inQuotes
+    else if (data[i] === 0x0a && !inQuotes) return i + 1
+  }
+  return data.length
+}
+
+/** The minimal interval between two reports of the throughput in the logs. */
+const throughputInterval = 10000 // ms
+
+type DownloadProgress = ReturnType<typeof createDownloadProgress>
+
+/**
+ * Follows the progress of a download: the downloaded bytes are given to the progress of the download task,
+ * and the throughput (rows and bytes per second) is regularly reported in the logs,
+ * with the bytes transferred on the network when the pages are compressed.
+ * @param log - The log utilitary to display messages
+ * @returns the functions reporting the downloaded data and the end of the download
+ */
+const createDownloadProgress = (log: LogFunctions) => {
+  const start = Date.now()
+  let lastReport = start
+  let bytes = 0
+  let transferredBytes = 0
+  let rows = 0
+  let pendingLogPromise: Promise<void> | null = null
+
+  const getMetrics = () => {
+    const seconds = Math.max((Date.now() - start) / 1000, 0.001)
+    return { rows, bytes, transferredBytes, seconds: Math.round(seconds * 10) / 10, rowsPerSecond: Math.round(rows / seconds), bytesPerSecond: Math.round(bytes / seconds) }
+  }
+  const formatThroughput = (metrics: ReturnType<typeof getMetrics>) => {
+    const megabytes = (value: number) => (value / 1000000).toFixed(2)
+    return `${metrics.rowsPerSecond} lignes/s, ${megabytes(metrics.bytesPerSecond)} Mo/s, ${megabytes(metrics.bytes)} Mo dont ${megabytes(metrics.transferredBytes)} Mo transférés`
+  }
+
+  return {
+    /** Reports the bytes received for a page in progress, without waiting for the log. */
+    receiving: (pageBytes: number) => {
+      // Only start a new log promise if there isn't one already running
+      if (!pendingLogPromise) {
+        pendingLogPromise = log.progress('downloading', bytes + pageBytes)
+          .catch(err => console.warn('Progress logging failed:', err))
+          .finally(() => { pendingLogPromise = null })
+      }
+    },
+    /** Reports a downloaded page, and its size on the network if it was compressed. */
+    add: async (pageBytes: number, pageRows: number, pageTransferredBytes = pageBytes) => {
+      bytes += pageBytes
+      transferredBytes += pageTransferredBytes
+      rows += pageRows
+      await log.progress('downloading', bytes)
+      if (Date.now() - lastReport >= throughputInterval) {
+        lastReport = Date.now()
+        const metrics = getMetrics()
+        await log.info(`${rows} lignes téléchargées (${formatThroughput(metrics)})`, metrics)
+      }
+    },
+    /** Reports the end of the download with the average throughput. */
+    end: async () => {
+      await log.progress('downloading', bytes, bytes)
+      const metrics = getMetrics()
+      await log.info(`${rows} lignes téléchargées en ${metrics.seconds} s (${formatThroughput(metrics)})`, metrics)
+    }
+  }
+}
+
+/**
+ * Counts the rows of a chunk of CSV, ignoring the new lines inside quoted values.
+ * A last row without trailing new line is counted too.
+ */
+const countCsvRows = (data: Buffer): number => {
+  let rows = 0
+  let inQuotes = false
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 0x22) inQuotes = !inQuotes
+    else if (data[i] === 0x0a && !inQuotes) rows++
+  }
+  if (data.length && data[data.length - 1] !== 0x0a) rows++
+  return rows
+}
+
+/**
+ * Splits a chunk of CSV in rows, ignoring the new lines inside quoted values. Each row keeps its new line.
+ */
+const splitCsvRows = (data: Buffer): Buffer[] => {
+  const rows: Buffer[] = []
+  let start = 0
+  let inQuotes = false
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 0x22) inQuotes = !inQuotes
+    else if (data[i] === 0x0a && !inQuotes) {
+      rows.push(data.subarray(start, i + 1))
+      start = i + 1
+    }
+  }
+  if (start < data.length) rows.push(data.subarray(start))
+  return rows
+}
+
+/**
+ * Parses the values of a CSV row, the quoted values are unquoted.
+ */
+const parseCsvRow = (row: string): string[] => {
+  const values: string[] = []
+  let value = ''
+  let inQuotes = false
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i]
+    if (inQuotes) {
+      if (char === '"' && row[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') inQuotes = false
+      else value += char
+    } else if (char === '"') inQuotes = true
+    else if (char === ',') {
+      values.push(value)
+      value = ''
+    } else if (char !== '\n' && char !== '\r') value += char
+  }
+  values.push(value)
+  return values
+}
+
+/**
+ * Removes the rows of a page of CSV whose values of the deduplicated columns were already seen.
+ * @param data - The page, starting with its header
+ * @param keys - The keys of the deduplicated columns
+ * @param seen - The values of the deduplicated columns of the rows already kept, completed with the rows of the page
+ * @returns the page without the duplicated rows, and the number of removed rows
+ */
+const deduplicateCsvRows = (data: Buffer, keys: string[], seen: Set<string>): { data: Buffer, duplicates: number } => {
+  const [header, ...rows] = splitCsvRows(data)
+  if (!header) return { data, duplicates: 0 }
+  const columns = parseCsvRow(header.toString())
+  const indexes = keys.map(key => columns.indexOf(key))
+  const kept = rows.filter(row => {
+    const values = parseCsvRow(row.toString())
+    const key = JSON.stringify(indexes.map(index => values[index]))
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+  return { data: Buffer.concat([header, ...kept]), duplicates: rows.length - kept.length }
+}
+
+/**
+ * Keeps the first rows of a chunk of CSV, ignoring the new lines inside quoted values.
+ * @returns the chunk, cut after the given number of rows
+ */
+const truncateCsvRows = (data: Buffer, maxRows: number): Buffer => {
+  let rows = 0
+  let inQuotes = false
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 0x22) inQuotes = !inQuotes
+    else if (data[i] === 0x0a && !inQuotes && ++rows >= maxRows) return data.subarray(0, i + 1)
+  }
+  return maxRows > 0 ? data : data.subarray(0, 0)
+}
+
+/**
+ * Downloads the rows of a dataset matching the given filters as JSON pages and saves them in a given file path,
+ * either as newline-delimited JSON or as a single GeoJSON feature collection.
+ * @param destFile - The path to the temporary file where the file will be saved.
+ * @param firstPageUrl - The url of the first page of lines, see getLinesUrl.
+ * @param geojson - If true, the pages are GeoJSON feature collections merged in a single one.
+ * @param secrets - The secrets of the catalog, containing the credentials if any.
+ * @param log - The log utilitary to display messages
+ * @param options - The checks and the transformations of the items, the properties of the items are renamed with the columns.
+ * @returns A promise that resolves when the file is successfully downloaded and saved.
+ * @throws If there is an error writing the file or fetching the dataset.
+ */
+const downloadResourceJsonLines = async (destFile: string, firstPageUrl: string, geojson: boolean, { catalogConfig, secrets, log }: GetResourceContext<DataFairConfig>, { expectedCount, columns, maxRows, deduplicate }: LinesOptions = {}): Promise<void> => {
+  const seen = new Set<string>()
+  let duplicates = 0
+  const renameProperties = (properties: Record<string, any> = {}) => columns
+    ? Object.fromEntries(columns.filter(column => column.source in properties).map(column => [column.key, properties[column.source]]))
+    : properties
+  let url: string | null = firstPageUrl
+  const visited = new Set<string>()
+  const progress = createDownloadProgress(log)
+
+  let rows = 0
+  const writer = fs.createWriteStream(destFile)
+  const write = (data: string) => new Promise<void>((resolve, reject) => writer.write(data, (err) => err ? reject(err) : resolve()))
+
+  try {
+    if (geojson) await write('{"type":"FeatureCollection","features":[\n')
+    let isFirstItem = true
+    while (url) {
+      const pageUrl: string = url
+      const response: { data: any, headers: Record<string, any> } = await withRetry(() => dataFairRequest({ catalogConfig, secrets }, { url: pageUrl }), log, 'La récupération d\'une page de lignes')
+      let items: Record<string, any>[] = (geojson ? response.data.features : response.data.results) ?? []
+      // the items received, before the deduplication and the truncation: a page made of duplicates does not end the download
+      const receivedItems = items.length
+      if (deduplicate) {
+        items = items.filter(item => {
+          const properties = (geojson ? item.properties : item) ?? {}
+          const key = JSON.stringify(deduplicate.map(key => properties[key]))
+          if (seen.has(key)) {
+            duplicates++
+            return false
           }
-        }))
+          seen.add(key)
+          return true
+        })
       }
+      if (maxRows !== undefined) items = items.slice(0, maxRows - rows)
+      let pageSize = 0
+      for (let item of items) {
+        item = geojson ? { ...item, properties: renameProperties(item.properties) } : renameProperties(item)
+        const line = geojson ? (isFirstItem ? '' : ',\n') + JSON.stringify(item) : JSON.stringify(item) + '\n'
+        await write(line)
+        isFirstItem = false
+        pageSize += line.length
+      }
+      rows += items.length
+      await progress.add(pageSize, items.length)
+      // an empty page ends the download, even if the portal gives a next page
+      url = (maxRows !== undefined && rows >= maxRows) || !receivedItems ? null : getNextPageUrl(pageUrl, extractNextPageUrl(response.headers.link) ?? response.data.next, visited)
+    }
+    if (geojson) await write('\n]}\n')
+  } finally {
+    await new Promise<void>((resolve) => writer.end(resolve))
+  }
+  await progress.end()
+  if (duplicates) await log.info(`${duplicates} lignes en double ignorées`)
+  if (expectedCount !== undefined && rows !== expectedCount) {
+    throw new Error(`Le fichier téléchargé est incomplet (${rows} lignes reçues, ${expectedCount} attendues)`)
+  }
+}
 
-      stream.on('data', (chunk: Buffer) => {
-        downloaded += chunk.length
+/**
+ * Downloads the revisions history of a REST dataset and saves it as a CSV file in a given file path.
+ * The revisions are returned by Data Fair from the most recent to the oldest,
+ * so the pagination stops at the first revision older than `updatedSince` if it is defined.
+ * @param destFile - The path to the temporary file where the CSV will be saved.
+ * @param res - The metadatas about the resource.
+ * @param catalogConfig - The DataFair configuration object.
+ * @param resourceId - The Id of the dataset to download.
+ * @param log - The log utilitary to display messages
+ * @param columns - The columns of the dataset written after the revision columns (see getColumnsMapping),
+ * the revisions are read with the key of the columns in the dataset (source).
+ * @returns A promise that resolves when the file is successfully downloaded and saved.
+ * @throws If there is an error writing the file or fetching the revisions.
+ */
+const downloadResourceRevisions = async (destFile: string, res: ImportedResource, { catalogConfig, resourceId, secrets, log }: GetResourceContext<DataFairConfig>, columns: { source: string, key: string }[]): Promise<void> => {
+  let url: string | null = getApiUrl(catalogConfig, `/datasets/${resourceId}/revisions?size=10000`)
+  const visited = new Set<string>()
 
-        // Only start a new log promise if there isn't one already running
-        if (!pendingLogPromise) {
-          pendingLogPromise = log.progress('downloading', downloaded)
-            .catch(err => console.warn('Progress logging failed:', err))
-            .finally(() => { pendingLogPromise = null })
-        }
-      })
+  let downloaded = 0
+  const writer = fs.createWriteStream(destFile)
+  const write = (data: string) => new Promise<void>((resolve, reject) => writer.write(data, (err) => err ? reject(err) : resolve()))
 
-      stream.pipe(writer, { end: false })
-      stream.on('end', () => {
-        const linkHeader = response.headers.link
-        url = extractNextPageUrl(linkHeader)
-        isFirstChunk = false
-        resolve()
-      })
-      stream.on('error', (error: any) => {
-        writer.close()
-        console.error(`Error while fetching lines at ${url}`, error)
-        reject(error)
-      })
-    })
+  try {
+    await write([...revisionFields.map(field => field.key), ...columns.map(column => column.key)].map(toCsvValue).join(',') + '\n')
+    while (url) {
+      const pageUrl: string = url
+      const response: { data: any, headers: Record<string, any> } = await withRetry(() => dataFairRequest({ catalogConfig, secrets }, { url: pageUrl }), log, 'La récupération d\'une page de révisions')
+      const revisions: Record<string, any>[] = response.data.results ?? []
+      url = revisions.length ? getNextPageUrl(pageUrl, extractNextPageUrl(response.headers.link) ?? response.data.next, visited) : null
+      for (const revision of revisions) {
+        if (res.updatedSince && new Date(revision._updatedAt) <= new Date(res.updatedSince)) {
+          url = null
+          break
+        }
+        const line = [
+          revision._id,
+          revision._action,
+          revision._updatedAt,
+          revision._updatedByName ?? revision._updatedBy?.name ?? revision._updatedBy,
+          ...columns.map(column => revision[column.source])
+        ].map(toCsvValue).join(',') + '\n'
+        await write(line)
+        downloaded += line.length
+      }
+      await log.progress('downloading', downloaded)
+    }
+  } finally {
+    await new Promise<void>((resolve) => writer.end(resolve))
   }
   await log.progress('downloading', downloaded, downloaded)
-  writer.end()
+}
+
+/**
+ * Serializes a value as a CSV cell, quoted if it contains a separator, a quote or a new line.
+ */
+const toCsvValue = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  const str = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+/**
+ * Downloads the attachments of a dataset in the temporary directory and references them in the resource:
+ * the zip archive of the files referenced by the lines (if the dataset has an attachment column),
+ * and the files attached to the metadata of the dataset (the attachments of type url are not downloaded).
+ * @param context - the download context
+ * @param dataset - the Data Fair dataset
+ * @param res - the resource to complete with the paths of the attachments
+ */
+const downloadAttachments = async ({ catalogConfig, resourceId, tmpDir, secrets, log }: GetResourceContext<DataFairConfig>, dataset: DataFairDataset, res: ImportedResource): Promise<void> => {
+  const datasetUrl = getApiUrl(catalogConfig, `/datasets/${resourceId}`)
+  const downloadFile = (url: string, filePath: string) => withRetry(async () => {
+    const response = await dataFairRequest({ catalogConfig, secrets }, { url, responseType: 'stream' })
+    await pipeline(response.data, fs.createWriteStream(filePath))
+  }, log, 'Le téléchargement d\'une pièce jointe')
+
+  const hasLinesAttachments = (dataset.schema ?? []).some(field => field['x-refersTo'] === 'http://schema.org/DigitalDocument')
+  const metadataAttachments = (dataset.attachments ?? []).filter(attachment => attachment.type === 'file')
+  const total = metadataAttachments.length + (hasLinesAttachments ? 1 : 0)
+  if (!total) {
+    await log.info('Le jeu de données n\'a pas de pièces jointes')
+    return
+  }
+
+  await log.task('attachments', 'Téléchargement des pièces jointes...', total)
+  let downloaded = 0
+  try {
+    if (hasLinesAttachments) {
+      const filePath = join(tmpDir, `${resourceId}-attachments.zip`)
+      await downloadFile(`${datasetUrl}/attachments`, filePath)
+      res.attachmentsFilePath = filePath
+      await log.progress('attachments', ++downloaded)
+    }
+
+    if (metadataAttachments.length) {
+      const attachmentsDir = join(tmpDir, 'metadata-attachments')
+      await fs.promises.mkdir(attachmentsDir, { recursive: true })
+      res.metadataAttachments = []
+      for (const attachment of metadataAttachments) {
+        const filePath = join(attachmentsDir, basename(attachment.name))
+        await downloadFile(`${datasetUrl}/metadata-attachments/${encodeURIComponent(attachment.name)}`, filePath)
+        res.metadataAttachments.push({ name: attachment.name, title: attachment.title ?? attachment.name, mimeType: attachment.mimetype, filePath })
+        await log.progress('attachments', ++downloaded)
+      }
+    }
+  } catch (error) {
+    console.error('Error while downloading the attachments', error)
+    throw new Error(`Erreur pendant le téléchargement des pièces jointes : ${error instanceof Error ? error.message : String(error)}`)
+  }
 }
 
 /**
  * Extract the next url (to fetch the next page) from the headers.
+ * The urls can contain commas (select, sort), so the links are matched as a whole instead of splitting the header on commas.
  * @param linkHeader the header where the `next` url should be
  * @returns the url if exists, null otherwise
  */
 const extractNextPageUrl = (linkHeader: string | undefined): string | null => {
   if (!linkHeader) return null
-  const links = linkHeader.split(',')
-  for (const link of links) {
-    const [urlPart, relPart] = link.split(';')
-    const url = urlPart.trim().slice(1, -1) // Remove < and >
-    const rel = relPart.trim()
-    if (rel === 'rel=next') {
-      return url
-    }
+  for (const [, url, params] of linkHeader.matchAll(/<([^>]*)>([^<]*)/g)) {
+    const rel = params.match(/rel\s*=\s*"?([^";,]*)"?/)?.[1]
+    if (rel?.split(/\s+/).includes('next')) return url
   }
   return null
 }
+
+/**
+ * Returns the url of the next page of lines, resolved against the url of the current page.
+ * Data Fair gives the next pages with an `after` cursor, a cursor leading back to a page already fetched would loop forever.
+ * @param pageUrl the url of the current page
+ * @param next the url of the next page given by the response (Link header or `next` property)
+ * @param visited the urls of the pages already fetched, completed with the current page
+ * @returns the absolute url of the next page, null if the current page is the last one
+ * @throws if the next page was already fetched
+ */
+const getNextPageUrl = (pageUrl: string, next: string | null | undefined, visited: Set<string>): string | null => {
+  visited.add(new URL(pageUrl).href)
+  if (!next) return null
+  const nextUrl = new URL(next, pageUrl).href
+  if (visited.has(nextUrl)) throw new Error('La pagination du portail revient sur une page déjà téléchargée')
+  return nextUrl
+}
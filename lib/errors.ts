@@ -0,0 +1,191 @@
+import type { LogFunctions } from '@data-fair/types-catalogs'
+
+export type Locale = 'fr' | 'en'
+
+/** A message in each locale, like the x-i18n-* fields of the schemas. */
+type I18nMessage = Record<Locale, string>
+
+type ErrorDetails = {
+  /** The HTTP status of the response, if any */
+  status?: number
+  /** The url of the request */
+  url?: string
+  /** The original error, its message is appended to the localized message */
+  cause?: unknown
+}
+
+/**
+ * The base class of the errors of the plugin whose cause is identified.
+ * The message is in French (the language of the other messages of the plugin),
+ * the English message and the guidance to fix the error are available in `i18n`.
+ */
+export abstract class DataFairError extends Error {
+  status?: number
+  url?: string
+  i18n: Record<Locale, { message: string, guidance: string }>
+
+  constructor (message: I18nMessage, guidance: I18nMessage, { status, url, cause }: ErrorDetails = {}) {
+    const detail = cause instanceof Error ? ` (${cause.message})` : ''
+    super(message.fr + detail, { cause })
+    this.name = new.target.name
+    this.status = status
+    this.url = url
+    this.i18n = {
+      fr: { message: message.fr + detail, guidance: guidance.fr },
+      en: { message: message.en + detail, guidance: guidance.en }
+    }
+  }
+
+  /** The guidance to fix the error, in French. */
+  get guidance (): string {
+    return this.i18n.fr.guidance
+  }
+}
+
+/** The credentials were refused by the portal (HTTP 401). */
+export class AuthenticationError extends DataFairError {
+  constructor (details?: ErrorDetails) {
+    super(
+      { fr: 'Authentification refusée par le portail', en: 'Authentication refused by the portal' },
+      {
+        fr: 'Vérifiez la clé API ou les identifiants du compte de service dans la configuration du catalogue, ils ont peut-être expiré ou été révoqués.',
+        en: 'Check the API key or the credentials of the service account in the configuration of the catalog, they may have expired or been revoked.'
+      },
+      details
+    )
+  }
+}
+
+/** The dataset does not exist on the portal, or is not visible with the current credentials (HTTP 404). */
+export class DatasetNotFoundError extends DataFairError {
+  constructor (datasetId: string, details?: ErrorDetails) {
+    super(
+      { fr: `Le jeu de données ${datasetId} est introuvable`, en: `The dataset ${datasetId} was not found` },
+      {
+        fr: 'Le jeu de données a peut-être été supprimé du portail, ou il est privé et les identifiants du catalogue ne permettent pas d\'y accéder.',
+        en: 'The dataset may have been deleted from the portal, or it is private and the credentials of the catalog do not give access to it.'
+      },
+      details
+    )
+  }
+}
+
+/** The credentials are valid but do not give the required permission (HTTP 403). */
+export class PermissionDeniedError extends DataFairError {
+  constructor (details?: ErrorDetails) {
+    super(
+      { fr: 'Permission refusée par le portail', en: 'Permission denied by the portal' },
+      {
+        fr: 'Vérifiez les droits de la clé API ou du compte de service (lecture, écriture, administration) et le compte pour lequel les requêtes sont faites.',
+        en: 'Check the permissions of the API key or of the service account (read, write, admin) and the account on behalf of which the requests are made.'
+      },
+      details
+    )
+  }
+}
+
+/** The portal does not answer, or does not answer as a Data Fair instance. */
+export class PortalUnreachableError extends DataFairError {
+  constructor (details?: ErrorDetails) {
+    super(
+      { fr: 'Le portail Data Fair est injoignable', en: 'The Data Fair portal is unreachable' },
+      {
+        fr: 'Vérifiez l\'URL du catalogue (et l\'URL de l\'API pour un domaine personnalisé), les paramètres du proxy, et que le portail est en ligne.',
+        en: 'Check the URL of the catalog (and the API URL for a custom domain), the proxy settings, and that the portal is online.'
+      },
+      details
+    )
+  }
+}
+
+/** The portal refuses the request because of a quota or a rate limit (HTTP 429 or 413). */
+export class QuotaExceededError extends DataFairError {
+  constructor (details?: ErrorDetails) {
+    super(
+      { fr: 'Quota dépassé sur le portail', en: 'Quota exceeded on the portal' },
+      {
+        fr: 'Réduisez le nombre de requêtes par seconde dans les paramètres réseau du catalogue, ou libérez de l\'espace sur le compte du portail.',
+        en: 'Reduce the number of requests per second in the network settings of the catalog, or free some space on the account of the portal.'
+      },
+      details
+    )
+  }
+}
+
+/** A filter of the import configuration is invalid or refused by the portal (HTTP 400). */
+export class InvalidFilterError extends DataFairError {
+  constructor (message: I18nMessage = { fr: 'Filtre invalide', en: 'Invalid filter' }, details?: ErrorDetails) {
+    super(
+      message,
+      {
+        fr: 'Vérifiez les filtres de la configuration de l\'import : les colonnes filtrées, le format des valeurs et des dates, et les géométries GeoJSON.',
+        en: 'Check the filters of the import configuration: the filtered columns, the format of the values and dates, and the GeoJSON geometries.'
+      },
+      details
+    )
+  }
+}
+
+/** The reasons why a dataset is outside of the scope of the catalog, with the message of each reason. */
+const outOfScopeReasons: Record<'owner' | 'visibility' | 'publicationSite', I18nMessage> = {
+  owner: { fr: 'il n\'appartient pas à un des propriétaires du catalogue', en: 'it does not belong to one of the owners of the catalog' },
+  visibility: { fr: 'sa visibilité ne correspond pas à celle du catalogue', en: 'its visibility does not match the one of the catalog' },
+  publicationSite: { fr: 'il n\'est pas publié sur le site de publication du catalogue', en: 'it is not published on the publication site of the catalog' }
+}
+
+/** The dataset is visible with the credentials of the catalog, but outside of the scope configured in the catalog. */
+export class OutOfScopeError extends DataFairError {
+  constructor (datasetId: string, reason: keyof typeof outOfScopeReasons, details?: ErrorDetails) {
+    super(
+      {
+        fr: `Le jeu de données ${datasetId} est hors du périmètre du catalogue : ${outOfScopeReasons[reason].fr}`,
+        en: `The dataset ${datasetId} is outside of the scope of the catalog: ${outOfScopeReasons[reason].en}`
+      },
+      {
+        fr: 'Choisissez un jeu de données listé dans le catalogue, ou élargissez le périmètre dans la configuration du catalogue.',
+        en: 'Choose a dataset listed in the catalog, or widen the scope in the configuration of the catalog.'
+      },
+      details
+    )
+  }
+}
+
+/** The network error codes meaning that the portal cannot be reached. */
+const unreachableCodes = ['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EHOSTUNREACH', 'CERT_HAS_EXPIRED', 'DEPTH_ZERO_SELF_SIGNED_CERT']
+
+/**
+ * Converts an error of a request to Data Fair to a typed error according to its HTTP status or its network error code.
+ * @param err the error of the request (see DataFairRequestError)
+ * @param target what was requested: a dataset (404 means that the dataset does not exist), or the lines of a dataset (400 means that a filter is invalid)
+ * @returns the typed error, or the original error if its cause is not identified
+ */
+export const toDataFairError = (err: any, target: { datasetId?: string, lines?: boolean } = {}): unknown => {
+  if (err instanceof DataFairError) return err
+  const details = { status: err?.status, url: err?.url, cause: err }
+  switch (err?.status) {
+    case 400: return target.lines ? new InvalidFilterError(undefined, details) : err
+    case 401: return new AuthenticationError(details)
+    case 403: return new PermissionDeniedError(details)
+    case 404: return target.datasetId ? new DatasetNotFoundError(target.datasetId, details) : new PortalUnreachableError(details)
+    case 413:
+    case 429: return new QuotaExceededError(details)
+    case 502:
+    case 503:
+    case 504: return new PortalUnreachableError(details)
+  }
+  if (!err?.status && unreachableCodes.includes(err?.code)) return new PortalUnreachableError(details)
+  return err
+}
+
+/**
+ * Reports an error in the logs of the import, with the guidance to fix it if its cause is identified.
+ * @param log the log utilitary
+ * @param err the error
+ */
+export const logError = async (log: LogFunctions, err: unknown): Promise<void> => {
+  if (err instanceof DataFairError) {
+    await log.error(err.message, { guidance: err.guidance, status: err.status, url: err.url, en: err.i18n.en })
+  } else {
+    await log.error(err instanceof Error ? err.message : String(err))
+  }
+}
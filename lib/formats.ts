@@ -0,0 +1,37 @@
+import type { DataFairDataset, ImportConfig } from '#types'
+
+export type OutputFormat = NonNullable<ImportConfig['format']>
+
+/**
+ * The formats in which a resource can be imported.
+ * - extension: the extension of the downloaded file
+ * - mimeType: the mime type given in the imported Resource
+ * - linesFormat: the value of the `format` param of the Data Fair `/lines` endpoint
+ */
+export const formats: Record<OutputFormat, { extension: string, mimeType: string, linesFormat: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv', linesFormat: 'csv' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', linesFormat: 'geojson' },
+  jsonl: { extension: 'jsonl', mimeType: 'application/x-ndjson', linesFormat: 'json' },
+  xlsx: { extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', linesFormat: 'xlsx' }
+}
+
+/** The concepts (x-refersTo) used by Data Fair to locate the geometry of a line. */
+const geometryConcepts = [
+  'https://purl.org/geojson/vocab#geometry',
+  'http://www.w3.org/2003/01/geo/wgs84_pos#lat_long'
+]
+const latitudeConcepts = ['http://schema.org/latitude', 'http://www.w3.org/2003/01/geo/wgs84_pos#lat']
+const longitudeConcepts = ['http://schema.org/longitude', 'http://www.w3.org/2003/01/geo/wgs84_pos#long']
+
+/**
+ * Checks if a Data Fair dataset is geographic, i.e. if its lines can be exported as GeoJSON features.
+ * @param dataset the Data Fair dataset
+ * @returns true if the dataset has a projection, a bounding box or a geometry concept in its schema
+ */
+export const hasGeometry = (dataset: DataFairDataset): boolean => {
+  if (dataset.projection?.code || dataset.bbox?.length) return true
+  const concepts = (dataset.schema ?? []).map(field => field['x-refersTo'])
+  if (concepts.some(concept => concept && geometryConcepts.includes(concept))) return true
+  return concepts.some(concept => concept && latitudeConcepts.includes(concept)) &&
+    concepts.some(concept => concept && longitudeConcepts.includes(concept))
+}
@@ -1,15 +1,32 @@
 import type { DataFairCatalog, DataFairDataset, DataFairConfig } from '#types'
-import axios from '@data-fair/lib-node/axios.js'
 import type { CatalogPlugin, ListContext } from '@data-fair/types-catalogs'
 import type { DataFairCapabilities } from './capabilities.ts'
+import { dataFairRequest, getApiUrl } from './client.ts'
+import { DataFairError, toDataFairError } from './errors.ts'
+import { hasGeometry } from './formats.ts'
+import { type Portal, getPortals, toResourceId } from './portals.ts'
+import { getScopeParams } from './scope.ts'
 
 type ResourceList = Awaited<ReturnType<CatalogPlugin['list']>>['results']
 
 /**
+ * Describes the kind of a REST or virtual dataset, to distinguish them from the file datasets in the listing.
+ * @returns the description of the kind, undefined for a file dataset
+ */
+const getDatasetKind = (dataFairDataset: DataFairDataset): string | undefined => {
+  if (dataFairDataset.isRest) return 'Jeu de données éditable'
+  if (dataFairDataset.isVirtual) return 'Jeu de données virtuel'
+}
+
+/**
+ * The format displayed for a dataset is the default import format (CSV),
+ * GeoJSON is also listed for the geographic datasets as it can be chosen in the import configuration.
+ * The datasets of a federated portal are prefixed with the id of the portal, and its title is added to their description.
  * @param dataFairDataset the dataset to transform
+ * @param portal the portal of the datasets
  * @returns an object containing the count of resources, the transformed resources, and an empty path array
  */
-const prepareCatalog = (dataFairDatasets: DataFairDataset[]): ResourceList => {
+const prepareCatalog = (dataFairDatasets: DataFairDataset[], portal?: Portal): ResourceList => {
   const catalog: ResourceList = []
 
   for (const dataFairDataset of dataFairDatasets) {
@@ -18,10 +35,12 @@ const prepareCatalog = (dataFairDatasets: DataFairDataset[]): ResourceList => {
       const lastFile = dataFairDataset.storage.dataFiles[dataFairDataset.storage.dataFiles.length - 1]
       size = lastFile.size
     }
+    const description = [getDatasetKind(dataFairDataset), portal?.id && `Portail ${portal.title}`].filter(Boolean).join(' - ')
     catalog.push({
-      id: dataFairDataset.id,
+      id: portal ? toResourceId(portal, dataFairDataset.id) : dataFairDataset.id,
       title: dataFairDataset.title,
-      format: 'csv',
+      ...(description && { description }),
+      format: hasGeometry(dataFairDataset) ? 'csv, geojson' : 'csv',
       size,
       type: 'resource',
       origin: dataFairDataset.page
@@ -30,8 +49,100 @@ const prepareCatalog = (dataFairDatasets: DataFairDataset[]): ResourceList => {
   return catalog
 }
 
+type Folder = { id: string, title: string, type: 'folder' }
+type Facet = { count: number, value: any }
+
+/**
+ * The categories of virtual folders, built from the facets of the Data Fair datasets.
+ * - facet: the name of the facet to request to list the folders of this category
+ * - param: the filter param of Data Fair used to list the datasets of a folder
+ * - getFolder: extracts the id and title of a folder from a facet value
+ */
+const folderCategories: Record<string, { title: string, facet: string, param: string, getFolder: (value: any) => { id: string, title: string } }> = {
+  owner: {
+    title: 'Par propriétaire',
+    facet: 'owner',
+    param: 'owner',
+    getFolder: (owner: { type: string, id: string, name: string, department?: string, departmentName?: string }) => ({
+      id: [owner.type, owner.id, owner.department].filter(Boolean).join(':'),
+      title: owner.department ? `${owner.name} - ${owner.departmentName ?? owner.department}` : owner.name
+    })
+  },
+  topic: {
+    title: 'Par thématique',
+    facet: 'topics',
+    param: 'topics',
+    getFolder: (topic: { id: string, title: string }) => ({ id: topic.id, title: topic.title })
+  },
+  keyword: {
+    title: 'Par mot-clé',
+    facet: 'keywords',
+    param: 'keywords',
+    getFolder: (keyword: string) => ({ id: keyword, title: keyword })
+  }
+}
+
+/** The additional filters of the list params (see the list filters schema), forwarded as is to Data Fair. */
+const listFilterKeys = ['owner', 'topics', 'keywords', 'licenses', 'frequency', 'spatial', 'type'] as const
+
+/**
+ * Fetches a Data Fair endpoint and checks that the response is a JSON object.
+ * @param config the list context, containing the Data Fair configuration and secrets
+ * @param path the path of the endpoint, relative to the Data Fair API
+ * @param params the query params
+ * @returns the response body
+ */
+const fetchDataFair = async <T>(config: ListContext<DataFairConfig, DataFairCapabilities>, path: string, params: Record<string, any>): Promise<T> => {
+  const url = getApiUrl(config.catalogConfig, path)
+  try {
+    const res = await dataFairRequest(config, { url, params })
+    if (res.status !== 200 || typeof res.data !== 'object') {
+      throw new Error(`HTTP error : ${res.status}, ${res.data}`)
+    }
+    return res.data
+  } catch (e) {
+    console.error(`Error fetching datasets from ${url} : ${e}`)
+    const error = toDataFairError(e)
+    if (error instanceof DataFairError) throw error
+    throw new Error(`Erreur lors de la récuperation de la resource Data Fair (${e instanceof Error ? e.message : ''})`)
+  }
+}
+
+/**
+ * Lists the virtual folders of a category, one folder per value of the facet of this category.
+ * @param config the list context
+ * @param categoryId the id of the category (owner, topic or keyword)
+ * @returns the folders of the category, paginated in memory
+ */
+const listCategoryFolders = async (config: ListContext<DataFairConfig, DataFairCapabilities>, categoryId: string): ReturnType<CatalogPlugin<DataFairConfig>['list']> => {
+  const category = folderCategories[categoryId]
+  const folders = await getCategoryFolders(config, categoryId)
+  const size = config.params?.size ?? folders.length
+  const page = config.params?.page ?? 1
+  return {
+    count: folders.length,
+    results: folders.slice((page - 1) * size, page * size),
+    path: [{ id: categoryId, title: category.title, type: 'folder' }]
+  }
+}
+
+const getCategoryFolders = async (config: ListContext<DataFairConfig, DataFairCapabilities>, categoryId: string): Promise<Folder[]> => {
+  const category = folderCategories[categoryId]
+  const params = getScopeParams(config.catalogConfig.scope, { size: 0, facets: category.facet })!
+  const data = await fetchDataFair<{ facets: Record<string, Facet[]> }>(config, '/datasets', params)
+  return (data.facets?.[category.facet] ?? []).map(facet => {
+    const folder = category.getFolder(facet.value)
+    return { id: `${categoryId}:${folder.id}`, title: `${folder.title} (${facet.count})`, type: 'folder' }
+  })
+}
+
 /**
  * Returns the catalog [list of dataset] from a Data Fair service
+ * If the browsing by folders is enabled, the root folder contains the categories of folders (owner, topic, keyword),
+ * each category contains a folder by value, and each of these folders contains the matching datasets.
+ * The id of a folder is built as `category:value`, for example `owner:organization:my-org` or `keyword:environment`.
+ * A search or a filter at the root lists the matching datasets directly.
+ * The datasets and the folders are restricted to the scope of the catalog (owners, visibility, publication site).
  * @param config the Data Fair configuration
  * @returns the list of Resources available on this catalog
  */
@@ -40,25 +151,108 @@ export const listResources = async (config: ListContext<DataFairConfig, DataFair
   if (config.params?.q) dataFairParams.q = config.params.q
   if (config.params?.size) dataFairParams.size = config.params.size
   if (config.params?.page) dataFairParams.page = config.params.page
+  if (config.params?.sort) dataFairParams.sort = config.params.sort
+  for (const key of listFilterKeys) {
+    if (config.params?.[key]) dataFairParams[key] = config.params[key]
+  }
+  const filtered = !!config.params?.q || listFilterKeys.some(key => !!config.params?.[key])
 
-  let data: DataFairCatalog
-  const url = `${config.catalogConfig.url}/data-fair/api/v1/catalog/datasets`
-  const headers = config.secrets.apiKey ? { 'x-apiKey': config.secrets.apiKey } : undefined
-  try {
-    const res = (await axios.get(url, { params: dataFairParams, headers }))
-    if (res.status !== 200 || typeof res.data !== 'object') {
-      throw new Error(`HTTP error : ${res.status}, ${res.data}`)
+  let path: Folder[] = []
+  const currentFolderId = config.params?.currentFolderId
+  if (config.catalogConfig.browseByFolders && (currentFolderId || !filtered)) {
+    if (!currentFolderId) {
+      const results: Folder[] = Object.entries(folderCategories).map(([id, category]) => ({ id, title: category.title, type: 'folder' }))
+      return { count: results.length, results, path: [] }
     }
-    data = res.data
-  } catch (e) {
-    console.error(`Error fetching datasets from ${url} : ${e}`)
-    throw new Error(`Erreur lors de la récuperation de la resource Data Fair (${e instanceof Error ? e.message : ''})`)
+
+    const separatorIndex = currentFolderId.indexOf(':')
+    const categoryId = separatorIndex === -1 ? currentFolderId : currentFolderId.slice(0, separatorIndex)
+    const category = folderCategories[categoryId]
+    if (!category) throw new Error(`Dossier inconnu : ${currentFolderId}`)
+    if (separatorIndex === -1) return await listCategoryFolders(config, categoryId)
+
+    dataFairParams[category.param] = currentFolderId.slice(separatorIndex + 1)
+    const folder = (await getCategoryFolders(config, categoryId)).find(folder => folder.id === currentFolderId)
+    path = [
+      { id: categoryId, title: category.title, type: 'folder' },
+      folder ?? { id: currentFolderId, title: dataFairParams[category.param], type: 'folder' }
+    ]
   }
 
+  if (config.catalogConfig.portals?.length && !currentFolderId) return await listFederatedResources(config, dataFairParams)
+
+  // the datasets outside of the scope of the catalog are never listed
+  const params = getScopeParams(config.catalogConfig.scope, dataFairParams)
+  if (!params) return { count: 0, results: [], path }
+  const data = await fetchDataFair<DataFairCatalog>(config, '/catalog/datasets', params)
+
   const catalog = prepareCatalog(data.results)
   return {
     count: data.count,
     results: catalog,
-    path: []
+    path
+  }
+}
+
+/** The size of a page of the listing when the list params do not give one. */
+const defaultPageSize = 20
+
+/**
+ * Compares 2 datasets according to the sort param of Data Fair (ex: `title`, `createdAt:-1`, `-dataUpdatedAt`).
+ * Only the first sort key is used, the datasets without value are listed last.
+ */
+const getDatasetsComparator = (sort: string): ((a: DataFairDataset, b: DataFairDataset) => number) => {
+  let [key, direction] = sort.split(',')[0].split(':')
+  let order = direction === '-1' ? -1 : 1
+  if (key.startsWith('-')) {
+    key = key.slice(1)
+    order = -1
+  }
+  return (a, b) => {
+    const valueA = (a as Record<string, any>)[key]
+    const valueB = (b as Record<string, any>)[key]
+    if (valueA === valueB) return 0
+    if (valueA === undefined || valueA === null) return 1
+    if (valueB === undefined || valueB === null) return -1
+    return order * String(valueA).localeCompare(String(valueB), 'fr', { numeric: true })
+  }
+}
+
+/**
+ * Lists the datasets of the portal of the catalog and of its federated portals, in a single sorted list.
+ * The datasets up to the requested page are fetched from each portal, merged according to the sort param, then paginated.
+ * The scope of the catalog only restricts the datasets of the portal of the catalog.
+ * A federated portal that cannot be reached is skipped, so that the other portals can still be browsed
+ * (its status is checked when the catalog is configured).
+ * @param config the list context
+ * @param dataFairParams the query params of the listing, with the search, the filters and the pagination
+ * @returns the datasets of the requested page and the total count of the datasets of all the portals
+ */
+const listFederatedResources = async (config: ListContext<DataFairConfig, DataFairCapabilities>, dataFairParams: Record<string, any>): ReturnType<CatalogPlugin<DataFairConfig>['list']> => {
+  const size = Number(dataFairParams.size ?? defaultPageSize)
+  const page = Number(dataFairParams.page ?? 1)
+
+  let count = 0
+  const datasets: { portal: Portal, dataset: DataFairDataset }[] = []
+  for (const portal of getPortals(config)) {
+    const params = getScopeParams(portal.catalogConfig.scope, { ...dataFairParams, page: 1, size: page * size })
+    if (!params) continue
+    let data: DataFairCatalog
+    try {
+      data = await fetchDataFair<DataFairCatalog>({ ...config, ...portal }, '/catalog/datasets', params)
+    } catch (e) {
+      if (!portal.id) throw e
+      console.error(`Le portail fédéré ${portal.id} est ignoré : ${e instanceof Error ? e.message : e}`)
+      continue
+    }
+    count += data.count
+    datasets.push(...data.results.map(dataset => ({ portal, dataset })))
   }
+
+  const compare = getDatasetsComparator(dataFairParams.sort)
+  const results = datasets
+    .sort((a, b) => compare(a.dataset, b.dataset))
+    .slice((page - 1) * size, page * size)
+    .flatMap(({ portal, dataset }) => prepareCatalog([dataset], portal))
+  return { count, results, path: [] }
 }
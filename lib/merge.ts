@@ -0,0 +1,57 @@
+import type { DataFairDataset, ImportConfig } from '#types'
+
+type DataFairField = NonNullable<DataFairDataset['schema']>[number]
+export type MergeConfig = NonNullable<ImportConfig['merge']>
+
+/**
+ * A dataset merged in the imported resource.
+ * - datasetId: the id of the dataset on the portal
+ * - columns: the key of each of its columns in the dataset (source) and in the merged schema (key)
+ */
+export type MergedSource = { datasetId: string, columns: { source: string, key: string }[] }
+
+/**
+ * Merges the schemas of several datasets.
+ * - union: the columns with the same key are merged, a column missing in a dataset is empty for its lines.
+ *   If the types of a column differ between the datasets, the column is typed as a string.
+ * - join: the columns of the first dataset are followed by the columns of the other datasets, except the join key.
+ *   A column whose key already exists in the merged schema is prefixed with the id of its dataset.
+ * @param datasets the merged datasets, the first one is the dataset of the import
+ * @param merge the merge configuration of the import
+ * @returns the merged schema and the mapping of the columns of each dataset
+ * @throws if the join key is missing in a dataset
+ */
+export const mergeSchemas = (datasets: { id: string, schema: DataFairField[] }[], merge: MergeConfig): { schema: DataFairField[], sources: MergedSource[] } => {
+  const schema: DataFairField[] = []
+  const sources: MergedSource[] = []
+  for (const [i, dataset] of datasets.entries()) {
+    const source: MergedSource = { datasetId: dataset.id, columns: [] }
+    if (merge.mode === 'join') {
+      if (!merge.joinKey) throw new Error('La clé de jointure est nécessaire pour joindre les jeux de données')
+      if (!dataset.schema.some(field => field.key === merge.joinKey)) {
+        throw new Error(`La clé de jointure ${merge.joinKey} est absente du jeu de données ${dataset.id}`)
+      }
+    }
+    for (const field of dataset.schema) {
+      const existing = schema.find(f => f.key === field.key)
+      if (merge.mode === 'join') {
+        if (i > 0 && field.key === merge.joinKey) {
+          source.columns.push({ source: field.key, key: field.key })
+          continue
+        }
+        const key = existing ? `${dataset.id}_${field.key}` : field.key
+        schema.push({ ...field, key })
+        source.columns.push({ source: field.key, key })
+      } else {
+        if (!existing) schema.push({ ...field })
+        else if (existing.type !== field.type) {
+          existing.type = 'string'
+          delete existing.format
+        }
+        source.columns.push({ source: field.key, key: field.key })
+      }
+    }
+    sources.push(source)
+  }
+  return { schema, sources }
+}
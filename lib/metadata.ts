@@ -0,0 +1,95 @@
+import type { DataFairDataset } from '#types'
+
+/**
+ * The documentation of a dataset copied in the imported resource, in addition to the fields of the Resource type.
+ * - topics: the titles of the topics of the dataset
+ * - spatial / temporal: the spatial and temporal coverages
+ * - creator: the producer of the data, publisher: the account publishing the dataset on the portal
+ * - created / modified: the creation date of the dataset and the last update date of its data
+ * - attribution: the URL of the source of the data
+ * - relatedDatasets: the datasets related to this one on the portal
+ * - customMetadata: the custom metadata fields defined by the portal
+ * - dcat: the same documentation as a DCAT dataset (JSON-LD)
+ */
+export type ResourceMetadata = {
+  topics?: string[]
+  spatial?: string
+  temporal?: { start?: string, end?: string }
+  creator?: string
+  publisher?: string
+  created?: string
+  modified?: string
+  attribution?: string
+  relatedDatasets?: { id: string, title?: string, href?: string }[]
+  customMetadata?: Record<string, any>
+  dcat: Record<string, any>
+}
+
+/**
+ * Maps the documentation of a Data Fair dataset to the metadata of the imported resource.
+ * @param dataset the Data Fair dataset
+ * @param dataUpdatedAt the last update date of the data, used when the producer did not give a modification date
+ * @returns the metadata, the empty values are omitted
+ */
+export const getResourceMetadata = (dataset: DataFairDataset, dataUpdatedAt?: string): ResourceMetadata => {
+  const metadata: Omit<ResourceMetadata, 'dcat'> = {
+    topics: dataset.topics?.length ? dataset.topics.map(topic => topic.title) : undefined,
+    spatial: dataset.spatial || undefined,
+    temporal: dataset.temporal?.start || dataset.temporal?.end ? dataset.temporal : undefined,
+    creator: dataset.creator || undefined,
+    publisher: getPublisher(dataset),
+    created: dataset.createdAt,
+    modified: dataset.modified || dataUpdatedAt,
+    attribution: dataset.origin || undefined,
+    relatedDatasets: dataset.relatedDatasets?.length ? dataset.relatedDatasets : undefined,
+    customMetadata: dataset.customMetadata && Object.keys(dataset.customMetadata).length ? dataset.customMetadata : undefined
+  }
+  return { ...metadata, dcat: getDcatDataset(dataset, metadata) }
+}
+
+/** The name of the account publishing the dataset, with its department if any. */
+const getPublisher = (dataset: DataFairDataset): string | undefined => {
+  if (!dataset.owner) return undefined
+  const name = dataset.owner.name ?? dataset.owner.id
+  return dataset.owner.department ? `${name} - ${dataset.owner.departmentName ?? dataset.owner.department}` : name
+}
+
+/**
+ * Builds a DCAT representation (JSON-LD) of the dataset, so that its documentation can be exchanged with other catalogs.
+ * @param dataset the Data Fair dataset
+ * @param metadata the metadata already mapped from the dataset
+ * @returns the DCAT dataset, the empty values are omitted
+ */
+const getDcatDataset = (dataset: DataFairDataset, metadata: Omit<ResourceMetadata, 'dcat'>): Record<string, any> => {
+  const dcat: Record<string, any> = {
+    '@context': {
+      dcat: 'http://www.w3.org/ns/dcat#',
+      dct: 'http://purl.org/dc/terms/',
+      foaf: 'http://xmlns.com/foaf/0.1/'
+    },
+    '@type': 'dcat:Dataset',
+    '@id': dataset.href,
+    'dct:identifier': dataset.id,
+    'dct:title': dataset.title,
+    'dct:description': dataset.description,
+    'dcat:keyword': dataset.keywords?.length ? dataset.keywords : undefined,
+    'dcat:theme': metadata.topics,
+    'dct:spatial': metadata.spatial,
+    'dct:temporal': metadata.temporal && {
+      '@type': 'dct:PeriodOfTime',
+      'dcat:startDate': metadata.temporal.start,
+      'dcat:endDate': metadata.temporal.end
+    },
+    'dct:creator': metadata.creator && { '@type': 'foaf:Agent', 'foaf:name': metadata.creator },
+    'dct:publisher': metadata.publisher && { '@type': 'foaf:Agent', 'foaf:name': metadata.publisher },
+    'dct:issued': metadata.created,
+    'dct:modified': metadata.modified,
+    // the update frequencies of Data Fair are the terms of the Dublin Core frequency vocabulary
+    'dct:accrualPeriodicity': dataset.frequency ? `http://purl.org/cld/freq/${dataset.frequency}` : undefined,
+    'dct:license': dataset.license?.href,
+    'dct:source': metadata.attribution,
+    'dcat:landingPage': dataset.page,
+    'dct:relation': metadata.relatedDatasets?.map(related => related.href ?? related.id)
+  }
+  return Object.fromEntries(Object.entries(dcat).filter(([, value]) => value !== undefined && value !== ''))
+}
@@ -0,0 +1,74 @@
+import type { DataFairConfig } from '#types'
+import { type ClientContext, proxySecretKey } from './client.ts'
+
+type PortalConfig = NonNullable<DataFairConfig['portals']>[number]
+
+/**
+ * A portal of the catalog: the portal of the catalog configuration, or one of its federated portals.
+ * - id: the identifier of a federated portal, used as a prefix of the ids of its datasets (undefined for the main portal)
+ * - title: the title of the portal, to display it with its datasets
+ * - catalogConfig / secrets: the configuration and the secrets used to send requests to this portal
+ */
+export type Portal = ClientContext & { id?: string, title?: string }
+
+/** The separator between the identifier of a federated portal and the id of one of its datasets. */
+const separator = ':'
+
+/**
+ * The key of the API key of a federated portal in the secrets of the catalog.
+ * @param portalId the identifier of the federated portal
+ */
+export const getPortalSecretKey = (portalId: string): string => `portals.${portalId}.apiKey`
+
+/**
+ * Builds the configuration of a federated portal: its URLs and its API key replace the ones of the catalog,
+ * the network settings of the catalog (and the password of its proxy) are kept.
+ */
+const getFederatedPortal = ({ catalogConfig, secrets }: ClientContext, portal: PortalConfig): Portal => {
+  const portalSecrets: Record<string, string> = {}
+  const apiKey = secrets[getPortalSecretKey(portal.id)]
+  if (apiKey) portalSecrets.apiKey = apiKey
+  if (secrets[proxySecretKey]) portalSecrets[proxySecretKey] = secrets[proxySecretKey]
+  return {
+    id: portal.id,
+    title: portal.title || portal.id,
+    catalogConfig: { url: portal.url, apiUrl: portal.apiUrl, network: catalogConfig.network },
+    secrets: portalSecrets
+  }
+}
+
+/**
+ * Lists the portals of the catalog: the portal of the catalog configuration first, then the federated portals.
+ * @param context the catalog configuration and its secrets
+ * @returns the portals, with the configuration and the secrets to send requests to each of them
+ */
+export const getPortals = (context: ClientContext): Portal[] => {
+  return [
+    { catalogConfig: context.catalogConfig, secrets: context.secrets },
+    ...(context.catalogConfig.portals ?? []).map(portal => getFederatedPortal(context, portal))
+  ]
+}
+
+/**
+ * Builds the id of a resource of the catalog from the id of a dataset of a portal.
+ * The ids of the datasets of the federated portals are prefixed with the identifier of their portal.
+ */
+export const toResourceId = (portal: Portal, datasetId: string): string => {
+  return portal.id ? `${portal.id}${separator}${datasetId}` : datasetId
+}
+
+/**
+ * Finds the portal of a resource of the catalog.
+ * @param context the catalog configuration and its secrets
+ * @param resourceId the id of the resource, prefixed with the identifier of its portal for a federated portal
+ * @returns the portal and the id of the dataset on this portal
+ * @throws if the prefix of the id is not the identifier of a federated portal
+ */
+export const resolveResource = (context: ClientContext, resourceId: string): { portal: Portal, datasetId: string } => {
+  const separatorIndex = resourceId.indexOf(separator)
+  if (separatorIndex === -1) return { portal: getPortals(context)[0], datasetId: resourceId }
+  const portalId = resourceId.slice(0, separatorIndex)
+  const portal = (context.catalogConfig.portals ?? []).find(portal => portal.id === portalId)
+  if (!portal) throw new Error(`Portail fédéré inconnu : ${portalId}`)
+  return { portal: getFederatedPortal(context, portal), datasetId: resourceId.slice(separatorIndex + 1) }
+}
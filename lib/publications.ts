@@ -0,0 +1,185 @@
+import type { DataFairConfig, DataFairDataset } from '#types'
+import type { DeletePublicationContext, LogFunctions, Publication, PublishDatasetContext } from '@data-fair/types-catalogs'
+import axios from '@data-fair/lib-node/axios.js'
+import * as fs from 'fs'
+import { tmpdir } from 'os'
+import { basename, join } from 'path'
+import { pipeline } from 'stream/promises'
+import { hasCredentials } from './auth.ts'
+import { type RequestConfig, type Response, DataFairRequestError, dataFairRequest } from './client.ts'
+import { DataFairError, logError, toDataFairError } from './errors.ts'
+
+type DataFairField = NonNullable<DataFairDataset['schema']>[number]
+
+/**
+ * Publishes a local dataset on a remote Data Fair instance.
+ * The remote dataset is created on the first publication and updated on the next ones.
+ * File datasets are published by uploading their full file, other datasets (REST, virtual)
+ * are published as remote REST datasets whose lines are copied by bulk.
+ * The local dataset is read with the API key of the local Data Fair if it is configured (needed for private datasets).
+ * @param context - the publication context, contains the local dataset and the existing publication
+ * @returns the publication completed with the remote dataset information
+ */
+export const publishDataset = async ({ catalogConfig, secrets, dataset, publication, log }: PublishDatasetContext<DataFairConfig>): Promise<Publication> => {
+  if (publication.isResource) {
+    throw new Error('La publication d\'un jeu de données en tant que ressource n\'est pas supportée par un catalogue Data Fair')
+  }
+  if (!hasCredentials(catalogConfig, secrets)) {
+    throw new Error('Une clé API est nécessaire (ou un compte de service, ou un jeton JWT) pour publier un jeu de données sur un catalogue Data Fair')
+  }
+  const client = (config: RequestConfig) => dataFairRequest({ catalogConfig, secrets }, config)
+
+  let remoteDataset: DataFairDataset | undefined
+  if (publication.remoteDataset?.id) {
+    try {
+      remoteDataset = (await client({ url: `/datasets/${publication.remoteDataset.id}` })).data
+    } catch (e: any) {
+      if (e.status !== 404) throw await toRemoteError(log, e, 'Erreur lors de la récuperation du jeu de données distant')
+      await log.warning('Le jeu de données distant n\'existe plus, il va être recréé', { id: publication.remoteDataset.id })
+    }
+  }
+
+  const metadata = getPublishedMetadata(dataset)
+  try {
+    if (dataset.file) {
+      remoteDataset = await uploadDatasetFile(client, secrets, dataset, metadata, remoteDataset)
+    } else {
+      remoteDataset = await uploadDatasetLines(client, secrets, dataset, metadata, remoteDataset)
+    }
+  } catch (e) {
+    console.error('Error while publishing the dataset', e)
+    throw await toRemoteError(log, e, 'Erreur lors de la publication du jeu de données sur le catalogue Data Fair')
+  }
+  await log.info('Jeu de données publié', { id: remoteDataset.id, url: remoteDataset.page })
+
+  publication.remoteDataset = {
+    id: remoteDataset.id,
+    title: remoteDataset.title,
+    url: remoteDataset.page ?? `${catalogConfig.url}/datasets/${remoteDataset.id}`
+  }
+  return publication
+}
+
+/**
+ * Deletes the remote copy of a published dataset.
+ * A remote dataset that no longer exists is considered as already deleted.
+ * @param context - the deletion context, contains the id of the remote dataset
+ */
+export const deletePublication = async ({ catalogConfig, secrets, datasetId, log }: DeletePublicationContext<DataFairConfig>): Promise<void> => {
+  try {
+    await dataFairRequest({ catalogConfig, secrets }, { method: 'delete', url: `/datasets/${datasetId}` })
+  } catch (e: any) {
+    if (e.status === 404) {
+      await log.warning('Le jeu de données distant était déjà supprimé', { id: datasetId })
+      return
+    }
+    console.error('Error while deleting the publication', e)
+    throw await toRemoteError(log, e, 'Erreur lors de la suppression du jeu de données distant')
+  }
+  await log.info('Jeu de données distant supprimé', { id: datasetId })
+}
+
+/**
+ * Reports an error and returns the error to throw, typed if it is an error of a request to the remote portal with an identified cause.
+ * @param log the log utilitary
+ * @param e the error
+ * @param message the message of the error if its cause is not identified
+ */
+const toRemoteError = async (log: LogFunctions, e: unknown, message: string): Promise<Error> => {
+  const error = e instanceof DataFairRequestError ? toDataFairError(e) : e
+  if (error instanceof DataFairError) {
+    await logError(log, error)
+    return error
+  }
+  return new Error(`${message} (${e instanceof Error ? e.message : e})`)
+}
+
+/**
+ * Builds the metadata copied on the remote dataset.
+ * Calculated fields are removed from the schema, they are computed again by the remote instance.
+ */
+const getPublishedMetadata = (dataset: DataFairDataset) => {
+  const metadata: Partial<DataFairDataset> = {
+    title: dataset.title,
+    description: dataset.description ?? '',
+    keywords: dataset.keywords ?? [],
+    schema: (dataset.schema ?? []).filter(field => !field['x-calculated']).map(getPublishedField)
+  }
+  if (dataset.license) metadata.license = dataset.license
+  return metadata
+}
+
+const getPublishedField = (field: DataFairField): DataFairField => {
+  const { enum: _enum, 'x-cardinality': _cardinality, 'x-extension': _extension, ...publishedField } = field
+  return publishedField
+}
+
+/**
+ * Sends a request to the local Data Fair, authenticated with its API key if it is configured.
+ * @param secrets the secrets of the catalog, with the API key of the local Data Fair
+ * @param url the url of the request
+ * @param config the other options of the request
+ * @throws if the local dataset is not accessible, with the configuration to fix it
+ */
+const localRequest = async (secrets: Record<string, string>, url: string, config: { responseType?: 'stream' } = {}) => {
+  try {
+    return await axios.get(url, { ...config, headers: secrets.localApiKey ? { 'x-apiKey': secrets.localApiKey } : {} })
+  } catch (e) {
+    const status = (e as { status?: number } | undefined)?.status
+    if (status === 401 || status === 403) {
+      throw new Error(`Le jeu de données local n'est pas accessible (${status}), la clé API du Data Fair local est nécessaire pour publier un jeu de données privé`)
+    }
+    throw e
+  }
+}
+
+/**
+ * Uploads the full file of the local dataset, then copies its metadata on the remote dataset.
+ * The uploaded file keeps the name (and the format) of the file of the local dataset.
+ */
+const uploadDatasetFile = async (client: (config: RequestConfig) => Promise<Response>, secrets: Record<string, string>, dataset: DataFairDataset, metadata: Partial<DataFairDataset>, remoteDataset?: DataFairDataset): Promise<DataFairDataset> => {
+  const tmpDir = await fs.promises.mkdtemp(join(tmpdir(), 'catalog-data-fair-'))
+  const fileName = dataset.file?.name ? basename(dataset.file.name) : `${dataset.slug ?? dataset.id}.csv`
+  const filePath = join(tmpDir, fileName)
+  try {
+    const response = await localRequest(secrets, `${dataset.href}/full`, { responseType: 'stream' })
+    await pipeline(response.data, fs.createWriteStream(filePath))
+
+    const form = new FormData()
+    form.append('file', await fs.openAsBlob(filePath), fileName)
+    form.append('body', JSON.stringify({ title: metadata.title }))
+
+    const res = remoteDataset
+      ? await client({ method: 'put', url: `/datasets/${remoteDataset.id}`, data: form })
+      : await client({ method: 'post', url: '/datasets', data: form })
+    remoteDataset = res.data as DataFairDataset
+  } finally {
+    await fs.promises.rm(tmpDir, { recursive: true, force: true })
+  }
+
+  return (await client({ method: 'patch', url: `/datasets/${remoteDataset.id}`, data: metadata })).data
+}
+
+/**
+ * Creates (or updates) a remote REST dataset and copies all the lines of the local dataset in it.
+ */
+const uploadDatasetLines = async (client: (config: RequestConfig) => Promise<Response>, secrets: Record<string, string>, dataset: DataFairDataset, metadata: Partial<DataFairDataset>, remoteDataset?: DataFairDataset): Promise<DataFairDataset> => {
+  if (remoteDataset) {
+    remoteDataset = (await client({ method: 'patch', url: `/datasets/${remoteDataset.id}`, data: metadata })).data as DataFairDataset
+    await client({ method: 'delete', url: `/datasets/${remoteDataset.id}/lines` })
+  } else {
+    remoteDataset = (await client({ method: 'post', url: '/datasets', data: { ...metadata, isRest: true } })).data as DataFairDataset
+  }
+
+  const keys = (metadata.schema ?? []).map(field => field.key)
+  let url: string | undefined = `${dataset.href}/lines?size=10000&select=${keys.join(',')}`
+  while (url) {
+    const page: { results: Record<string, any>[], next?: string } = (await localRequest(secrets, url)).data
+    if (page.results.length) {
+      const lines = page.results.map(line => Object.fromEntries(keys.filter(key => key in line).map(key => [key, line[key]])))
+      await client({ method: 'post', url: `/datasets/${remoteDataset.id}/_bulk_lines`, data: lines })
+    }
+    url = page.next
+  }
+  return remoteDataset
+}
@@ -0,0 +1,43 @@
+import type { LogFunctions } from '@data-fair/types-catalogs'
+
+/**
+ * The options of the retries of the requests to Data Fair.
+ * - retries: the maximum number of retries of a failed request
+ * - delay: the delay before the first retry in ms, doubled at each new retry
+ */
+export const retryOptions = { retries: 3, delay: 1000 }
+
+/** The network error codes considered as transient. */
+const retryableCodes = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN']
+
+/**
+ * Checks if an error is transient, i.e. a server error (5xx), a timeout or a network error.
+ * @param err the error thrown by a request or by the stream of its response
+ * @returns true if the request can be retried
+ */
+export const isRetryableError = (err: any): boolean => {
+  const status = err?.status ?? err?.response?.status
+  if (status) return status >= 500 || status === 429 || status === 408
+  return retryableCodes.includes(err?.code)
+}
+
+/**
+ * Calls a function and calls it again with an exponential backoff as long as it fails with a transient error.
+ * @param fn the function to call, receives the number of the attempt (0 for the first call)
+ * @param log the log utilitary to warn about the retries
+ * @param description the description of the operation used in the warnings
+ * @returns the result of the first successful call
+ * @throws the error of the last call, or the first error that is not transient
+ */
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, log: LogFunctions, description: string): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (err) {
+      if (attempt >= retryOptions.retries || !isRetryableError(err)) throw err
+      const delay = retryOptions.delay * 2 ** attempt
+      await log.warning(`${description} a échoué, nouvelle tentative dans ${delay / 1000}s (${attempt + 1}/${retryOptions.retries})`, { error: err instanceof Error ? err.message : err })
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import type { DataFairConfig, DataFairDataset } from '#types'
+import { OutOfScopeError } from './errors.ts'
+
+export type CatalogScope = NonNullable<DataFairConfig['scope']>
+type Owner = { type: string, id: string, department?: string }
+
+/** The id of an owner in the filters of Data Fair (ex: organization:my-org:my-department). */
+const getOwnerId = (owner: Owner): string => [owner.type, owner.id, owner.department].filter(Boolean).join(':')
+
+/** Checks if an owner id is one of the owners of the scope, or one of their departments. */
+const isOwnerInScope = (ownerId: string, scope: CatalogScope): boolean => {
+  if (!scope.owners?.length) return true
+  return scope.owners.some(owner => ownerId === getOwnerId(owner) || ownerId.startsWith(`${getOwnerId(owner)}:`))
+}
+
+/** The values of the visibility filter of Data Fair for each visibility of the scope. */
+const visibilityParams: Record<string, string | undefined> = {
+  all: undefined,
+  public: 'public',
+  private: 'private,protected'
+}
+
+/**
+ * Restricts the query params of a listing of Data Fair datasets to the scope of the catalog.
+ * An owner filter of the listing (list filter or owner folder) is kept if it is in the scope,
+ * or narrowed to the owners of the scope that are departments of this owner.
+ * @param scope the scope of the catalog configuration
+ * @param params the query params of the listing
+ * @returns the restricted query params, undefined if the owner filter is outside of the scope (no dataset can match)
+ */
+export const getScopeParams = (scope: CatalogScope | undefined, params: Record<string, any>): Record<string, any> | undefined => {
+  if (!scope) return params
+  const scoped = { ...params }
+  if (scope.owners?.length) {
+    const ownerIds = scope.owners.map(getOwnerId)
+    if (params.owner) {
+      const owners = isOwnerInScope(params.owner, scope) ? [params.owner] : ownerIds.filter(id => id.startsWith(`${params.owner}:`))
+      if (!owners.length) return undefined
+      scoped.owner = owners.join(',')
+    } else {
+      scoped.owner = ownerIds.join(',')
+    }
+  }
+  const visibility = visibilityParams[scope.visibility ?? 'all']
+  if (visibility) scoped.visibility = visibility
+  if (scope.publicationSite) scoped.publicationSites = scope.publicationSite
+  return scoped
+}
+
+/**
+ * Checks that a dataset is in the scope of the catalog, so that a dataset outside of the scope cannot be imported by its id.
+ * @param scope the scope of the catalog configuration
+ * @param dataset the dataset to import
+ * @throws OutOfScopeError if the owner, the visibility or the publication sites of the dataset do not match the scope
+ */
+export const assertInScope = (scope: CatalogScope | undefined, dataset: DataFairDataset): void => {
+  if (!scope) return
+  if (scope.owners?.length && !(dataset.owner && isOwnerInScope(getOwnerId(dataset.owner), scope))) {
+    throw new OutOfScopeError(dataset.id, 'owner')
+  }
+  if ((scope.visibility === 'public' && dataset.visibility !== 'public') || (scope.visibility === 'private' && dataset.visibility !== 'private' && dataset.visibility !== 'protected')) {
+    throw new OutOfScopeError(dataset.id, 'visibility')
+  }
+  if (scope.publicationSite && !dataset.publicationSites?.includes(scope.publicationSite)) {
+    throw new OutOfScopeError(dataset.id, 'publicationSite')
+  }
+}
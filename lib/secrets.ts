@@ -0,0 +1,47 @@
+/** The value displayed in the configuration in place of a secret stored in the secrets of the catalog. */
+export const maskedSecret = '*************************'
+
+/**
+ * What to do with a secret according to the value of its field in the configuration:
+ * - set: a new value was entered, it replaces the stored secret
+ * - clear: the field was explicitly emptied, the stored secret is removed
+ * - keep: the field still contains a masked value, or is missing from the configuration, the stored secret is kept
+ */
+export type SecretAction = 'set' | 'clear' | 'keep'
+
+/**
+ * Determines what to do with a secret from the value of its field.
+ * Only an empty string clears a secret: a missing field comes from a configuration saved without it,
+ * and a masked value of any length (with the `*`, `•` or `●` characters), or a value made of spaces only,
+ * comes from a re-save of the form or from a typing mistake. None of them is stored as a secret.
+ * @param value the value of the field in the configuration
+ * @returns the action to apply to the stored secret
+ */
+export const getSecretAction = (value: string | undefined): SecretAction => {
+  if (value === undefined) return 'keep'
+  if (value === '') return 'clear'
+  if (!value.trim() || /^[*•●]+$/.test(value.trim())) return 'keep'
+  return 'set'
+}
+
+/**
+ * Moves the value of a field of the configuration to the secrets of the catalog.
+ * @param secrets the secrets of the catalog, updated in place
+ * @param key the key of the secret
+ * @param value the value of the field in the configuration
+ * @returns the value to put back in the field: masked if a secret is stored, empty (or still missing) otherwise
+ */
+export const updateSecret = (secrets: Record<string, string>, key: string, value: string | undefined): string | undefined => {
+  switch (getSecretAction(value)) {
+    case 'set':
+      secrets[key] = value!.trim()
+      break
+    case 'clear':
+      delete secrets[key]
+      return value
+    case 'keep':
+      if (value === undefined && !secrets[key]) return undefined
+      break
+  }
+  return secrets[key] ? maskedSecret : ''
+}
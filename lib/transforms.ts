@@ -0,0 +1,74 @@
+import type { DataFairDataset, ImportConfig } from '#types'
+import slugify from 'slugify'
+
+type DataFairField = NonNullable<DataFairDataset['schema']>[number]
+export type SchemaTransforms = NonNullable<ImportConfig['schemaTransforms']>
+
+/**
+ * The key of a column in the imported resource: the key of the column in the dataset,
+ * slugified for the columns of the extensions (ex: `_siret.nom` becomes `siretnom`).
+ * The requests to the portal always use the key of the column in the dataset.
+ */
+export const getFieldKey = (field: DataFairField): string => {
+  if (!field['x-extension']) return field.key
+  return slugify.default(field.key.replace(/^_/, ''), { lower: true, strict: true, replacement: '_' })
+}
+
+/**
+ * Applies the schema transformations of the import configuration to the schema of the dataset:
+ * drops the calculated columns, removes the annotations that are not kept,
+ * and overrides the key, the title, the type and the format of the configured columns.
+ * The columns of the extensions get the key returned by getFieldKey, unless they are renamed.
+ * @param schema the schema of the dataset
+ * @param transforms the schema transformations of the import configuration
+ * @returns the transformed schema
+ */
+export const transformSchema = (schema: DataFairField[], transforms: SchemaTransforms = {}): DataFairField[] => {
+  return schema
+    .filter(field => !(transforms.dropCalculated && field['x-calculated']))
+    .map(field => transformField(field, transforms))
+}
+
+const transformField = (field: DataFairField, transforms: SchemaTransforms): DataFairField => {
+  const result: DataFairField = { ...field, key: getFieldKey(field) }
+  delete result['x-extension']
+  if (transforms.keepConcepts === false) {
+    delete result['x-refersTo']
+    delete result['x-concept']
+  }
+  if (transforms.keepLabels === false) delete result['x-labels']
+  if (transforms.keepCapabilities === false) delete result['x-capabilities']
+
+  const column = transforms.columns?.find(column => column.field.key === field.key)
+  if (column?.type) result.type = column.type
+  if (column?.format === 'none') delete result.format
+  else if (column?.format) result.format = column.format
+  if (column?.title) result.title = column.title
+  if (column?.key) result.key = column.key
+  return result
+}
+
+/**
+ * Lists the columns of the downloaded file when the transformations change them (renamed or dropped columns).
+ * The columns are the selected fields of the import configuration, or all the columns of the dataset.
+ * @param schema the schema of the dataset, before the transformations
+ * @param importConfig the import configuration
+ * @returns the key of each column in the dataset (source) and in the downloaded file (key, see getFieldKey),
+ * or undefined if the columns of the dataset are kept as is
+ */
+export const getColumnsMapping = (schema: DataFairField[], importConfig: ImportConfig): { source: string, key: string }[] | undefined => {
+  const transforms = importConfig.schemaTransforms ?? {}
+  const renamed = (transforms.columns ?? []).filter(column => column.key && column.key !== column.field.key)
+  if (!renamed.length && !transforms.dropCalculated) return undefined
+
+  const keys = importConfig.fields?.length
+    ? importConfig.fields.map(field => field.key)
+    : schema.map(field => field.key)
+  return keys
+    .filter((key): key is string => !!key)
+    .filter(key => !(transforms.dropCalculated && schema.find(field => field.key === key)?.['x-calculated']))
+    .map(source => {
+      const field = schema.find(field => field.key === source)
+      return { source, key: renamed.find(column => column.field.key === source)?.key ?? (field ? getFieldKey(field) : source) }
+    })
+}
@@ -0,0 +1,189 @@
+/**
+ * Tests for the HTTP client of the catalog-data-fair plugin
+ *
+ * The client is responsible for:
+ * - Building the urls of the Data Fair API (subpath, custom domain)
+ * - Authenticating the requests and sending the custom User-Agent
+ * - Authenticating on the proxy of the network settings with the password of the secrets
+ * - Falling back on the secondary API key during the rotation of the API key
+ * - Limiting the concurrency and the rate of the requests sent to a portal
+ * - Mapping the errors with their HTTP status and url
+ */
+
+import type { DataFairConfig } from '#types'
+import { DataFairRequestError, dataFairRequest, getApiUrl, getProxy } from '../lib/client.ts'
+import assert from 'assert'
+import nock from 'nock'
+import { describe, beforeEach, it } from 'node:test'
+
+describe('catalog-data-fair HTTP client', () => {
+  beforeEach(() => {
+    nock.cleanAll()
+  })
+
+  describe('test getApiUrl', () => {
+    it('should join the path to the API of the portal', () => {
+      assert.strictEqual(getApiUrl({ url: 'https://example.com' }, '/datasets'), 'https://example.com/data-fair/api/v1/datasets')
+      assert.strictEqual(getApiUrl({ url: 'https://example.com/portal' }, 'datasets'), 'https://example.com/portal/data-fair/api/v1/datasets')
+    })
+
+    it('should use the API url of a portal served under a custom domain', () => {
+      const catalogConfig: DataFairConfig = { url: 'https://example.com', apiUrl: 'https://data.example.com/api/v1' }
+      assert.strictEqual(getApiUrl(catalogConfig, '/datasets/id'), 'https://data.example.com/api/v1/datasets/id')
+      assert.strictEqual(getApiUrl(catalogConfig), 'https://data.example.com/api/v1')
+    })
+
+    it('should keep the absolute urls of the next pages', () => {
+      const next = 'https://example.com/data-fair/api/v1/datasets/id/lines?after=1'
+      assert.strictEqual(getApiUrl({ url: 'https://example.com' }, next), next)
+    })
+  })
+
+  describe('test getProxy', () => {
+    it('should authenticate on the proxy with the password of the secrets', () => {
+      const catalogConfig: DataFairConfig = { url: 'https://example.com', network: { proxy: 'http://proxy.example.com:3128', proxyUsername: 'proxyUser', proxyPassword: '*************************' } }
+      assert.deepEqual(getProxy({ catalogConfig, secrets: { 'network.proxyPassword': 'proxyPassword' } }), {
+        protocol: 'http',
+        host: 'proxy.example.com',
+        port: 3128,
+        auth: { username: 'proxyUser', password: 'proxyPassword' }
+      })
+    })
+
+    it('should use the default port of the proxy without credentials', () => {
+      const catalogConfig: DataFairConfig = { url: 'https://example.com', network: { proxy: 'https://proxy.example.com' } }
+      assert.deepEqual(getProxy({ catalogConfig, secrets: {} }), { protocol: 'https', host: 'proxy.example.com', port: 443, auth: undefined })
+      assert.strictEqual(getProxy({ catalogConfig: { url: 'https://example.com' }, secrets: {} }), undefined)
+    })
+  })
+
+  describe('test dataFairRequest', () => {
+    it('should send the credentials and the User-Agent', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/datasets')
+        .matchHeader('x-apiKey', 'key')
+        .matchHeader('User-Agent', 'my-agent')
+        .reply(200, { count: 0 })
+
+      const res = await dataFairRequest({ catalogConfig: { url: 'https://example.com', network: { userAgent: 'my-agent' } }, secrets: { apiKey: 'key' } }, { url: '/datasets' })
+      assert.deepEqual(res.data, { count: 0 })
+    })
+
+    it('should limit the number of simultaneous requests', async () => {
+      const catalogConfig: DataFairConfig = { url: 'https://limited.example.com', network: { maxConcurrency: 1 } }
+      let active = 0
+      let maxActive = 0
+      nock('https://limited.example.com')
+        .get(/\/data-fair\/api\/v1\/datasets\/.*/)
+        .times(3)
+        .reply((uri, body, callback) => {
+          maxActive = Math.max(maxActive, ++active)
+          setTimeout(() => {
+            active--
+            callback(null, [200, {}])
+          }, 20)
+        })
+
+      await Promise.all(['a', 'b', 'c'].map(id => dataFairRequest({ catalogConfig, secrets: {} }, { url: `/datasets/${id}` })))
+      assert.strictEqual(maxActive, 1)
+    })
+
+    it('should limit the rate of the requests', async () => {
+      const catalogConfig: DataFairConfig = { url: 'https://rate.example.com', network: { maxRequestsPerSecond: 20 } }
+      nock('https://rate.example.com')
+        .get('/data-fair/api/v1/datasets')
+        .times(3)
+        .reply(200, {})
+
+      const start = Date.now()
+      await Promise.all([1, 2, 3].map(() => dataFairRequest({ catalogConfig, secrets: {} }, { url: '/datasets' })))
+      assert.ok(Date.now() - start >= 90, 'The 3 requests should be spread over about 100ms')
+    })
+
+    it('should map the errors with their status and url', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/datasets/unknown')
+        .reply(404, 'Not found')
+
+      await assert.rejects(
+        async () => await dataFairRequest({ catalogConfig: { url: 'https://example.com' }, secrets: {} }, { url: '/datasets/unknown' }),
+        (err: any) => {
+          assert.ok(err instanceof DataFairRequestError)
+          assert.strictEqual(err.status, 404)
+          assert.strictEqual(err.url, 'https://example.com/data-fair/api/v1/datasets/unknown')
+          return true
+        }
+      )
+    })
+  })
+
+  /**
+   * Test suite for the rotation of the API key
+   *
+   * A request refused with the API key is sent again with the secondary API key.
+   */
+  describe('test secondary API key', () => {
+    const catalogConfig: DataFairConfig = { url: 'https://rotation.example.com' }
+
+    it('should send the request again with the secondary key when the API key is refused', async () => {
+      nock('https://rotation.example.com')
+        .get('/data-fair/api/v1/datasets')
+        .matchHeader('x-apiKey', 'oldKey')
+        .reply(401, 'Unauthorized')
+        .get('/data-fair/api/v1/datasets')
+        .matchHeader('x-apiKey', 'newKey')
+        .reply(200, { count: 0 })
+
+      const res = await dataFairRequest({ catalogConfig, secrets: { apiKey: 'oldKey', secondaryApiKey: 'newKey' } }, { url: '/datasets' })
+      assert.deepEqual(res.data, { count: 0 })
+      assert.ok(nock.isDone())
+    })
+
+    it('should send the secondary key when there is no API key', async () => {
+      nock('https://rotation.example.com')
+        .get('/data-fair/api/v1/datasets')
+        .matchHeader('x-apiKey', 'newKey')
+        .reply(200, { count: 0 })
+
+      const res = await dataFairRequest({ catalogConfig, secrets: { secondaryApiKey: 'newKey' } }, { url: '/datasets' })
+      assert.deepEqual(res.data, { count: 0 })
+    })
+
+    it('should not fall back on the secondary key for the other errors', async () => {
+      nock('https://rotation.example.com')
+        .get('/data-fair/api/v1/datasets')
+        .matchHeader('x-apiKey', 'oldKey')
+        .reply(403, 'Forbidden')
+
+      await assert.rejects(
+        async () => await dataFairRequest({ catalogConfig, secrets: { apiKey: 'oldKey', secondaryApiKey: 'newKey' } }, { url: '/datasets' }),
+        (err: any) => err instanceof DataFairRequestError && err.status === 403
+      )
+    })
+
+    it('should report the refusal when both keys are refused', async () => {
+      nock('https://rotation.example.com')
+        .get('/data-fair/api/v1/datasets')
+        .times(2)
+        .reply(401, 'Unauthorized')
+
+      await assert.rejects(
+        async () => await dataFairRequest({ catalogConfig, secrets: { apiKey: 'oldKey', secondaryApiKey: 'newKey' } }, { url: '/datasets' }),
+        (err: any) => err instanceof DataFairRequestError && err.status === 401
+      )
+      assert.ok(nock.isDone())
+    })
+
+    it('should ignore the secondary key with another authentication mode', async () => {
+      nock('https://rotation.example.com')
+        .get('/data-fair/api/v1/datasets')
+        .matchHeader('Authorization', 'Bearer expired.jwt')
+        .reply(401, 'Unauthorized')
+
+      await assert.rejects(
+        async () => await dataFairRequest({ catalogConfig: { ...catalogConfig, authMode: 'token' }, secrets: { token: 'expired.jwt', secondaryApiKey: 'newKey' } }, { url: '/datasets' }),
+        (err: any) => err instanceof DataFairRequestError && err.status === 401
+      )
+    })
+  })
+})
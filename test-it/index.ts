@@ -3,12 +3,16 @@ import type { CatalogPlugin, GetResourceContext, ListContext } from '@data-fair/
 import plugin from '../index.ts'
 import type { DataFairCapabilities } from '../lib/capabilities.ts'
 import { getResource } from '../lib/download.ts'
-import { logFunctions } from './test-utils.ts'
+import { DatasetNotFoundError, InvalidFilterError, OutOfScopeError, PortalUnreachableError } from '../lib/errors.ts'
+import { retryOptions } from '../lib/retry.ts'
+import { downloadContext, logFunctions } from './test-utils.ts'
 import assert from 'assert'
 import nock from 'nock'
 import { describe, beforeEach, it } from 'node:test'
 import { tmpdir } from 'os'
 import fs from 'fs'
+import { join } from 'path'
+import zlib from 'zlib'
 
 const catalogPlugin: CatalogPlugin = plugin as CatalogPlugin
 
@@ -17,6 +21,9 @@ const catalogConfig: DataFairConfig = {
   url: 'https://example.com',
 }
 
+// no delay between the retries of the failed requests
+retryOptions.delay = 0
+
 describe('catalog-data-fair', () => {
   const context: ListContext<DataFairConfig, DataFairCapabilities> = {
     catalogConfig,
@@ -257,6 +264,154 @@ describe('catalog-data-fair', () => {
     })
   })
 
+  /**
+   * Test suite for the additional filters and sort of the list
+   *
+   * The filters declared in the list filters schema are forwarded to the Data Fair catalog API.
+   */
+  describe('test list filters and sort', () => {
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should forward the filters and the sort to Data Fair', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets')
+        .query({
+          sort: 'dataUpdatedAt:-1',
+          owner: 'organization:org1',
+          topics: 'topic1',
+          keywords: 'water',
+          licenses: 'https://www.etalab.gouv.fr/licence-ouverte-open-licence',
+          frequency: 'daily',
+          spatial: 'Occitanie',
+          type: 'rest'
+        })
+        .reply(200, { count: 1, results: [{ id: 'res-1', title: 'Resource 1' }] })
+
+      const res = await catalogPlugin.list({
+        catalogConfig,
+        secrets: {},
+        params: {
+          sort: 'dataUpdatedAt:-1',
+          owner: 'organization:org1',
+          topics: 'topic1',
+          keywords: 'water',
+          licenses: 'https://www.etalab.gouv.fr/licence-ouverte-open-licence',
+          frequency: 'daily',
+          spatial: 'Occitanie',
+          type: 'rest'
+        }
+      } as any)
+      assert.ok(nock.isDone(), 'The filters should be forwarded')
+      assert.strictEqual(res.count, 1)
+    })
+
+    it('should list the filtered datasets at the root when browsing by folders', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&keywords=water')
+        .reply(200, { count: 1, results: [{ id: 'res-1', title: 'Resource 1' }] })
+
+      const res = await catalogPlugin.list({
+        catalogConfig: { ...catalogConfig, browseByFolders: true },
+        secrets: {},
+        params: { keywords: 'water' }
+      } as any)
+      assert.strictEqual(res.results[0].type, 'resource')
+    })
+
+    it('should declare the list filters schema', () => {
+      assert.ok(catalogPlugin.metadata.capabilities.includes('additionalFilters'))
+      const schema = (catalogPlugin as any).listFiltersSchema
+      assert.ok(schema?.properties?.sort, 'The sort should be declared')
+      assert.ok(schema?.properties?.owner, 'The owner filter should be declared')
+      for (const [key, property] of Object.entries<any>(schema.properties)) {
+        const url = property.layout?.getItems?.url
+        if (url) assert.ok(url.startsWith('${context.catalogConfig.apiUrl || '), `The values of the ${key} filter should be fetched from the API url`)
+      }
+    })
+  })
+
+  /**
+   * Test suite for the browsing by folders
+   *
+   * With the `browseByFolders` option, the root folder contains categories (owner, topic, keyword),
+   * each category contains a folder per facet value and each folder contains the matching datasets.
+   */
+  describe('test list by folders', () => {
+    const foldersConfig: DataFairConfig = { ...catalogConfig, browseByFolders: true }
+    const facets = {
+      owner: [
+        { count: 3, value: { type: 'organization', id: 'org1', name: 'Org 1' } },
+        { count: 1, value: { type: 'organization', id: 'org1', name: 'Org 1', department: 'dep1', departmentName: 'Dep 1' } }
+      ],
+      topics: [{ count: 2, value: { id: 'topic1', title: 'Environment' } }],
+      keywords: [{ count: 5, value: 'water' }, { count: 1, value: 'air' }]
+    }
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should list the categories at the root', async () => {
+      const res = await catalogPlugin.list({ catalogConfig: foldersConfig, secrets: {}, params: {} })
+      assert.strictEqual(res.count, 3)
+      assert.deepEqual(res.results.map(r => r.id), ['owner', 'topic', 'keyword'])
+      assert.ok(res.results.every(r => r.type === 'folder'))
+      assert.deepEqual(res.path, [])
+    })
+
+    it('should list the folders of a category from the facets', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/datasets?size=0&facets=owner')
+        .reply(200, { count: 4, results: [], facets: { owner: facets.owner } })
+
+      const res = await catalogPlugin.list({ catalogConfig: foldersConfig, secrets: {}, params: { currentFolderId: 'owner' } })
+      assert.strictEqual(res.count, 2)
+      assert.deepEqual(res.results, [
+        { id: 'owner:organization:org1', title: 'Org 1 (3)', type: 'folder' },
+        { id: 'owner:organization:org1:dep1', title: 'Org 1 - Dep 1 (1)', type: 'folder' }
+      ])
+      assert.deepEqual(res.path, [{ id: 'owner', title: 'Par propriétaire', type: 'folder' }])
+    })
+
+    it('should paginate the folders of a category', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/datasets?size=0&facets=keywords')
+        .reply(200, { count: 6, results: [], facets: { keywords: facets.keywords } })
+
+      const res = await catalogPlugin.list({ catalogConfig: foldersConfig, secrets: {}, params: { currentFolderId: 'keyword', page: 2, size: 1 } })
+      assert.strictEqual(res.count, 2)
+      assert.deepEqual(res.results, [{ id: 'keyword:air', title: 'air (1)', type: 'folder' }])
+    })
+
+    it('should list the datasets of a folder with a breadcrumb', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/datasets?size=0&facets=topics')
+        .reply(200, { count: 2, results: [], facets: { topics: facets.topics } })
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&topics=topic1')
+        .reply(200, { count: 1, results: [{ id: 'res-1', title: 'Resource 1' }] })
+
+      const res = await catalogPlugin.list({ catalogConfig: foldersConfig, secrets: {}, params: { currentFolderId: 'topic:topic1' } })
+      assert.strictEqual(res.count, 1)
+      assert.strictEqual(res.results[0].type, 'resource')
+      assert.deepEqual(res.path, [
+        { id: 'topic', title: 'Par thématique', type: 'folder' },
+        { id: 'topic:topic1', title: 'Environment (2)', type: 'folder' }
+      ])
+    })
+
+    it('should search in all the datasets from the root', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&q=test')
+        .reply(200, { count: 1, results: [{ id: 'res-1', title: 'Resource 1' }] })
+
+      const res = await catalogPlugin.list({ catalogConfig: foldersConfig, secrets: {}, params: { q: 'test' } })
+      assert.strictEqual(res.results[0].type, 'resource')
+      assert.deepEqual(res.path, [])
+    })
+  })
+
   /**
    * Test suite for the download functionality (getResource)
    *
@@ -442,7 +597,15 @@ describe('catalog-data-fair', () => {
 
       await assert.rejects(
         async () => await getResource(downloadContext as any),
-        /Erreur lors de la récuperation de la resource DataFair/i,
+        (err: any) => {
+          assert.ok(err instanceof DatasetNotFoundError, 'Should throw a typed error when the dataset does not exist')
+          assert.match(err.message, /Le jeu de données error-resource est introuvable/)
+          assert.strictEqual(err.status, 404)
+          assert.strictEqual(err.url, 'https://example.com/data-fair/api/v1/datasets/error-resource')
+          assert.match(err.i18n.en.message, /The dataset error-resource was not found/)
+          assert.ok(err.guidance)
+          return true
+        },
         'Should throw error when metadata fetch fails'
       )
     })
@@ -474,9 +637,10 @@ describe('catalog-data-fair', () => {
           file: { size: 1000 }
         })
 
-      // Mock failed file download
+      // Mock failed file download, the server errors are retried
       nock(catalogConfig.url)
         .get(`/data-fair/api/v1/datasets/${resourceId}/full`)
+        .times(retryOptions.retries + 1)
         .reply(500, 'Server error')
 
       await assert.rejects(
@@ -486,6 +650,70 @@ describe('catalog-data-fair', () => {
       )
     })
 
+    /**
+     * Test the mapping of the documentation of the dataset
+     *
+     * The topics, coverages, producer, publisher, dates, source, related datasets
+     * and custom metadata are kept in the resource, also as a DCAT dataset.
+     */
+    it('should map the documentation of the dataset in the resource', async () => {
+      const resourceId = 'documented-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, {
+          id: resourceId,
+          title: 'Documented Resource',
+          href: `https://example.com/data-fair/api/v1/datasets/${resourceId}`,
+          page: `https://example.com/datasets/${resourceId}`,
+          frequency: 'monthly',
+          keywords: ['air'],
+          topics: [{ id: 'env', title: 'Environnement', color: '#00ff00' }],
+          spatial: 'Bretagne',
+          temporal: { start: '2020-01-01', end: '2020-12-31' },
+          creator: 'Air Breizh',
+          origin: 'https://www.airbreizh.asso.fr',
+          owner: { type: 'organization', id: 'org1', name: 'Région Bretagne', department: 'dep1', departmentName: 'Environnement' },
+          createdAt: '2020-01-02T00:00:00.000Z',
+          dataUpdatedAt: '2021-01-02T00:00:00.000Z',
+          relatedDatasets: [{ id: 'other', title: 'Other', href: 'https://example.com/data-fair/api/v1/datasets/other' }],
+          customMetadata: { producerContact: 'contact@example.com' },
+          license: { title: 'Licence Ouverte', href: 'https://www.etalab.gouv.fr/licence-ouverte-open-licence' },
+          file: { size: 10 }
+        })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/full`)
+        .reply(200, 'col1\nval1\n')
+
+      const resource: any = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: {},
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any)
+
+      assert.deepEqual(resource.topics, ['Environnement'])
+      assert.strictEqual(resource.spatial, 'Bretagne')
+      assert.deepEqual(resource.temporal, { start: '2020-01-01', end: '2020-12-31' })
+      assert.strictEqual(resource.creator, 'Air Breizh')
+      assert.strictEqual(resource.publisher, 'Région Bretagne - Environnement')
+      assert.strictEqual(resource.created, '2020-01-02T00:00:00.000Z')
+      assert.strictEqual(resource.modified, '2021-01-02T00:00:00.000Z')
+      assert.strictEqual(resource.attribution, 'https://www.airbreizh.asso.fr')
+      assert.strictEqual(resource.relatedDatasets[0].id, 'other')
+      assert.deepEqual(resource.customMetadata, { producerContact: 'contact@example.com' })
+
+      assert.strictEqual(resource.dcat['@type'], 'dcat:Dataset')
+      assert.strictEqual(resource.dcat['dct:identifier'], resourceId)
+      assert.deepEqual(resource.dcat['dcat:theme'], ['Environnement'])
+      assert.strictEqual(resource.dcat['dct:accrualPeriodicity'], 'http://purl.org/cld/freq/monthly')
+      assert.strictEqual(resource.dcat['dct:temporal']['dcat:startDate'], '2020-01-01')
+      assert.strictEqual(resource.dcat['dct:publisher']['foaf:name'], 'Région Bretagne - Environnement')
+      assert.strictEqual(resource.dcat['dcat:landingPage'], `https://example.com/datasets/${resourceId}`)
+      assert.deepEqual(resource.dcat['dct:relation'], ['https://example.com/data-fair/api/v1/datasets/other'])
+    })
+
     it('should handle resources with license information', async () => {
       const resourceId = 'licensed-resource'
       const downloadContext: GetResourceContext<DataFairConfig> = {
@@ -609,6 +837,152 @@ describe('catalog-data-fair', () => {
       assert.match(content, /test1,active,main/, 'Filtered data should be present')
     })
 
+    it('should handle all the filter operators in import config', async () => {
+      const resourceId = 'all-filters-resource'
+      const downloadContext: GetResourceContext<DataFairConfig> = {
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: {
+          filters: [
+            { field: { key: 'status' }, type: 'eq', value: 'active' },
+            { field: { key: 'category' }, type: 'neq', value: 'old stuff' },
+            { field: { key: 'count' }, type: 'gt', value: '10' },
+            { field: { key: 'count' }, type: 'lt', value: '20' },
+            { field: { key: 'name' }, type: 'exists' },
+            { field: { key: 'comment' }, type: 'nexists' },
+            { field: { key: 'name' }, type: 'contains', value: 'est' },
+            { type: 'q', value: 'open data' },
+            { field: { key: 'date' }, type: 'dateRange', from: '2020-01-01', to: '2020-12-31' }
+          ]
+        } as ImportConfig,
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      }
+
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'Filtered Resource' })
+
+      const expectedUrl = `/data-fair/api/v1/datasets/${resourceId}/lines?format=csv&size=10000&status_eq=active&category_neq=old%20stuff&count_gt=10&count_lt=20&name_exists=true&comment_nexists=true&name_contains=est&q=open%20data&date_gte=2020-01-01&date_lte=2020-12-31`
+      nock(catalogConfig.url)
+        .get(expectedUrl)
+        .reply(200, 'name,status\ntest1,active\n', { 'Content-Type': 'text/csv' })
+
+      const resource = await getResource(downloadContext as any)
+      assert.ok(nock.isDone(), 'The lines should be fetched with all the filters')
+      assert.match(fs.readFileSync(resource!.filePath, 'utf8'), /test1,active/)
+    })
+
+    it('should handle relative date filters', async () => {
+      const resourceId = 'relative-date-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'Relative Date Resource' })
+
+      let dateFilter: string | undefined
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines`)
+        .query(query => {
+          dateFilter = query.date_gte as string
+          return true
+        })
+        .reply(200, 'date\n2025-01-01\n', { 'Content-Type': 'text/csv' })
+
+      await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: { filters: [{ field: { key: 'date' }, type: 'relativeDate', duration: 30, unit: 'days' }] },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any)
+
+      assert.ok(dateFilter, 'A date_gte filter should be sent')
+      const days = (Date.now() - new Date(dateFilter).getTime()) / (24 * 3600 * 1000)
+      assert.ok(Math.abs(days - 30) < 0.01, 'The filter should start 30 days ago')
+    })
+
+    it('should handle geographic filters', async () => {
+      const resourceId = 'geo-filters-resource'
+      const geometry = { type: 'Polygon', coordinates: [[[1.4, 43.5], [1.5, 43.5], [1.5, 43.6], [1.4, 43.5]]] }
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'Geo Filters Resource', bbox: [1, 43, 2, 44] })
+
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines`)
+        .query({
+          format: 'csv',
+          size: '10000',
+          bbox: '1.2,43.4,1.6,43.8',
+          geo_distance: '1.44,43.6,5000',
+          geo_intersects: JSON.stringify(geometry)
+        })
+        .reply(200, 'name\ntoulouse\n', { 'Content-Type': 'text/csv' })
+
+      const resource = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: {
+          filters: [
+            { type: 'bbox', minLon: 1.2, minLat: 43.4, maxLon: 1.6, maxLat: 43.8 },
+            { type: 'geoDistance', lon: 1.44, lat: 43.6, distance: 5000 },
+            { type: 'geoIntersects', geometry: JSON.stringify(geometry, null, 2) }
+          ]
+        },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any)
+
+      assert.ok(nock.isDone(), 'The lines should be fetched with the geographic filters')
+      assert.match(fs.readFileSync(resource!.filePath, 'utf8'), /toulouse/)
+    })
+
+    it('should reject an invalid geometry filter', async () => {
+      const resourceId = 'invalid-geometry-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'Invalid Geometry Resource' })
+
+      await assert.rejects(
+        async () => await getResource({
+          catalogConfig,
+          resourceId,
+          secrets: {},
+          importConfig: { filters: [{ type: 'geoIntersects', geometry: '{"type": "Polygon"' }] },
+          update: { metadata: true, schema: true },
+          tmpDir,
+          log: logFunctions
+        } as any),
+        /Géométrie GeoJSON invalide/
+      )
+    })
+
+    it('should reject unsupported filters instead of ignoring them', async () => {
+      const resourceId = 'unsupported-filter-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'Unsupported Filter Resource', file: { size: 100 } })
+
+      await assert.rejects(
+        async () => await getResource({
+          catalogConfig,
+          resourceId,
+          secrets: {},
+          importConfig: { filters: [{ field: { key: 'name' }, type: 'regexp', value: '.*' }] },
+          update: { metadata: true, schema: true },
+          tmpDir,
+          log: logFunctions
+        } as any),
+        /Type de filtre non supporté : regexp/
+      )
+    })
+
     it('should handle resources with schema extensions (remove the extension)', async () => {
       const resourceId = 'schema-resource'
       const downloadContext: GetResourceContext<DataFairConfig> = {
@@ -652,6 +1026,1262 @@ describe('catalog-data-fair', () => {
     })
   })
 
+  /**
+   * Test suite for the output formats
+   *
+   * The `format` import option selects the format of the downloaded file (CSV, GeoJSON, JSON Lines or XLSX).
+   * The file extension and the format of the returned resource depend on it.
+   */
+  describe('test output formats', () => {
+    const tmpDir = tmpdir()
+    const geoDataset = {
+      title: 'Geo Resource',
+      file: { size: 100 },
+      bbox: [1, 43, 2, 44],
+      schema: [{ key: 'name', type: 'string' }, { key: 'geom', type: 'string', 'x-refersTo': 'https://purl.org/geojson/vocab#geometry' }]
+    }
+
+    it('should list geographic datasets with the geojson format', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title')
+        .reply(200, { count: 1, results: [{ id: 'geo-res', ...geoDataset }] })
+
+      const res = await catalogPlugin.list({ catalogConfig, secrets: {}, params: {} })
+      assert.strictEqual((res.results[0] as any).format, 'csv, geojson')
+    })
+
+    it('should merge the pages of lines in a single GeoJSON file', async () => {
+      const resourceId = 'geo-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, ...geoDataset })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines?format=geojson&size=10000`)
+        .reply(200, {
+          type: 'FeatureCollection',
+          features: [{ type: 'Feature', properties: { name: 'a' }, geometry: { type: 'Point', coordinates: [1, 43] } }]
+        }, { link: `<https://example.com/data-fair/api/v1/datasets/${resourceId}/lines?format=geojson&size=10000&after=1>; rel=next` })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines?format=geojson&size=10000&after=1`)
+        .reply(200, {
+          type: 'FeatureCollection',
+          features: [{ type: 'Feature', properties: { name: 'b' }, geometry: { type: 'Point', coordinates: [2, 44] } }]
+        })
+
+      const resource = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: { format: 'geojson' },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any)
+
+      assert.strictEqual(resource?.format, 'geojson')
+      assert.strictEqual(resource?.mimeType, 'application/geo+json')
+      assert.ok(resource?.filePath.endsWith(`${resourceId}.geojson`), 'The file should have the geojson extension')
+      const content = JSON.parse(fs.readFileSync(resource!.filePath, 'utf8'))
+      assert.strictEqual(content.type, 'FeatureCollection')
+      assert.deepEqual(content.features.map((f: any) => f.properties.name), ['a', 'b'])
+    })
+
+    it('should refuse the GeoJSON format for a non geographic dataset', async () => {
+      const resourceId = 'not-geo-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'Not Geo', schema: [{ key: 'name', type: 'string' }] })
+
+      await assert.rejects(
+        async () => await getResource({
+          catalogConfig,
+          resourceId,
+          secrets: {},
+          importConfig: { format: 'geojson' },
+          update: { metadata: true, schema: true },
+          tmpDir,
+          log: logFunctions
+        } as any),
+        /GeoJSON n'est disponible que pour les jeux de données géographiques/
+      )
+    })
+
+    it('should write newline-delimited JSON', async () => {
+      const resourceId = 'jsonl-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'JSONL Resource', file: { size: 100 } })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines?format=json&size=10000`)
+        .reply(200, {
+          total: 2,
+          results: [{ col1: 'a', col2: 1 }],
+          next: `https://example.com/data-fair/api/v1/datasets/${resourceId}/lines?format=json&size=10000&after=1`
+        })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines?format=json&size=10000&after=1`)
+        .reply(200, { total: 2, results: [{ col1: 'b', col2: 2 }] })
+
+      const resource = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: { format: 'jsonl' },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any)
+
+      assert.strictEqual(resource?.format, 'jsonl')
+      assert.ok(resource?.filePath.endsWith(`${resourceId}.jsonl`))
+      const lines = fs.readFileSync(resource!.filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line))
+      assert.deepEqual(lines, [{ col1: 'a', col2: 1 }, { col1: 'b', col2: 2 }])
+    })
+
+    it('should download a XLSX file and reject truncated ones', async () => {
+      const resourceId = 'xlsx-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .times(2)
+        .reply(200, { id: resourceId, title: 'XLSX Resource' })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines?format=xlsx&size=10000`)
+        .reply(200, 'xlsx content')
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines?format=xlsx&size=10000`)
+        .reply(200, 'xlsx content', { link: `<https://example.com/data-fair/api/v1/datasets/${resourceId}/lines?format=xlsx&size=10000&after=1>; rel=next` })
+
+      const context = {
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: { format: 'xlsx' },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any
+      const resource = await getResource(context)
+      assert.ok(resource?.filePath.endsWith(`${resourceId}.xlsx`))
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'xlsx content')
+
+      await assert.rejects(async () => await getResource(context), /trop de lignes pour ce format/)
+    })
+  })
+
+  /**
+   * Test suite for the kinds of datasets
+   *
+   * File datasets are downloaded from their full file, REST and virtual datasets through their lines.
+   * REST datasets can also be imported as the history of their revisions, or restricted to the recently updated lines.
+   */
+  describe('test REST and virtual datasets', () => {
+    const tmpDir = tmpdir()
+    const restDataset = {
+      title: 'REST Resource',
+      isRest: true,
+      rest: { history: true },
+      schema: [{ key: 'name', type: 'string' }, { key: 'count', type: 'integer' }]
+    }
+
+    it('should show the kind of the datasets in the listing', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title')
+        .reply(200, {
+          count: 3,
+          results: [
+            { id: 'file-res', title: 'File', file: { size: 10 } },
+            { id: 'rest-res', title: 'REST', isRest: true },
+            { id: 'virtual-res', title: 'Virtual', isVirtual: true }
+          ]
+        })
+
+      const res = await catalogPlugin.list({ catalogConfig, secrets: {}, params: {} })
+      assert.strictEqual((res.results[0] as any).description, undefined)
+      assert.strictEqual((res.results[1] as any).description, 'Jeu de données éditable')
+      assert.strictEqual((res.results[2] as any).description, 'Jeu de données virtuel')
+    })
+
+    it('should only import the lines of a REST dataset updated after a date', async () => {
+      const resourceId = 'rest-updated-after'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, ...restDataset })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines?format=csv&size=10000&_updatedAt_gt=2025-03-01T00%3A00%3A00.000Z`)
+        .reply(200, 'name,count\nrecent,1\n', { 'Content-Type': 'text/csv' })
+
+      const resource = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: { rest: { updatedAfter: '2025-03-01T00:00:00.000Z' } },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any) as any
+
+      assert.ok(nock.isDone(), 'The lines should be filtered on their update date')
+      assert.strictEqual(resource.updatedSince, '2025-03-01T00:00:00.000Z')
+    })
+
+    it('should import the revisions history of a REST dataset', async () => {
+      const resourceId = 'rest-history'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, ...restDataset })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/revisions?size=10000`)
+        .reply(200, {
+          total: 3,
+          results: [
+            { _id: 'l1', _action: 'update', _updatedAt: '2025-03-02T00:00:00.000Z', _updatedByName: 'Alice', name: 'a, "b"', count: 2 },
+            { _id: 'l2', _action: 'delete', _updatedAt: '2025-03-01T00:00:00.000Z', _updatedBy: { id: 'u2', name: 'Bob' } }
+          ],
+          next: `https://example.com/data-fair/api/v1/datasets/${resourceId}/revisions?size=10000&after=2`
+        })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/revisions?size=10000&after=2`)
+        .reply(200, {
+          total: 3,
+          results: [{ _id: 'l1', _action: 'create', _updatedAt: '2025-01-01T00:00:00.000Z', _updatedByName: 'Alice', name: 'a', count: 1 }]
+        })
+
+      const resource = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: { rest: { history: true, updatedAfter: '2025-02-01T00:00:00.000Z' } },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any)
+
+      assert.deepEqual(resource?.schema?.map((field: any) => field.key), ['line_id', 'revision_action', 'revision_date', 'revision_user', 'name', 'count'])
+      const content = fs.readFileSync(resource!.filePath, 'utf8')
+      assert.strictEqual(content, [
+        'line_id,revision_action,revision_date,revision_user,name,count',
+        'l1,update,2025-03-02T00:00:00.000Z,Alice,"a, ""b""",2',
+        'l2,delete,2025-03-01T00:00:00.000Z,Bob,,',
+        ''
+      ].join('\n'), 'The revisions older than the date should not be imported')
+    })
+
+    it('should import the extension columns in the revisions history', async () => {
+      const resourceId = 'rest-history-extension'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, ...restDataset, schema: [...restDataset.schema, { key: '_siret.nom', type: 'string', 'x-extension': 'siret' }] })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/revisions?size=10000`)
+        .reply(200, { total: 1, results: [{ _id: 'l1', _action: 'create', _updatedAt: '2025-01-01T00:00:00.000Z', name: 'a', count: 1, '_siret.nom': 'Mairie' }] })
+
+      const resource = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: { rest: { history: true } },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any)
+
+      assert.deepEqual(resource?.schema?.map((field: any) => field.key), ['line_id', 'revision_action', 'revision_date', 'revision_user', 'name', 'count', 'siretnom'])
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'line_id,revision_action,revision_date,revision_user,name,count,siretnom\nl1,create,2025-01-01T00:00:00.000Z,,a,1,Mairie\n')
+    })
+
+    it('should refuse to import the history of a REST dataset without history', async () => {
+      const resourceId = 'rest-no-history'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, ...restDataset, rest: { history: false } })
+
+      await assert.rejects(
+        async () => await getResource({
+          catalogConfig,
+          resourceId,
+          secrets: {},
+          importConfig: { rest: { history: true } },
+          update: { metadata: true, schema: true },
+          tmpDir,
+          log: logFunctions
+        } as any),
+        /L'historique des révisions n'est pas activé/
+      )
+    })
+
+    it('should import the lines of a virtual dataset and ignore the REST options', async () => {
+      const resourceId = 'virtual-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'Virtual Resource', isVirtual: true })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines?format=csv&size=10000`)
+        .reply(200, 'name\nchild line\n', { 'Content-Type': 'text/csv' })
+
+      const resource = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: { rest: { history: true } },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any)
+
+      assert.match(fs.readFileSync(resource!.filePath, 'utf8'), /child line/)
+    })
+  })
+
+  /**
+   * Test suite for the attachments
+   *
+   * With the `attachments` import option, the archive of the lines attachments and the metadata attachments
+   * are downloaded next to the data file and referenced in the returned resource.
+   */
+  describe('test attachments download', () => {
+    const tmpDir = fs.mkdtempSync(`${tmpdir()}/catalog-data-fair-attachments-`)
+
+    it('should download the lines and metadata attachments', async () => {
+      const resourceId = 'attachments-resource'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, {
+          id: resourceId,
+          title: 'Attachments Resource',
+          file: { size: 10 },
+          schema: [{ key: 'doc', type: 'string', 'x-refersTo': 'http://schema.org/DigitalDocument' }],
+          attachments: [
+            { type: 'file', name: 'documentation.pdf', title: 'Documentation', mimetype: 'application/pdf' },
+            { type: 'url', name: 'site', title: 'Site web', url: 'https://example.com/site' }
+          ]
+        })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/full`)
+        .reply(200, 'doc\nfile1.pdf\n', { 'Content-Type': 'text/csv' })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/attachments`)
+        .reply(200, 'zip content', { 'Content-Type': 'application/zip' })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/metadata-attachments/documentation.pdf`)
+        .reply(200, 'pdf content', { 'Content-Type': 'application/pdf' })
+
+      const resource = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: { attachments: true },
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any) as any
+
+      assert.ok(nock.isDone(), 'The attachments should be downloaded')
+      assert.strictEqual(fs.readFileSync(resource.attachmentsFilePath, 'utf8'), 'zip content')
+      assert.strictEqual(resource.metadataAttachments.length, 1, 'The url attachments should not be downloaded')
+      assert.strictEqual(resource.metadataAttachments[0].title, 'Documentation')
+      assert.strictEqual(resource.metadataAttachments[0].mimeType, 'application/pdf')
+      assert.strictEqual(fs.readFileSync(resource.metadataAttachments[0].filePath, 'utf8'), 'pdf content')
+    })
+
+    it('should not download attachments without the option', async () => {
+      const resourceId = 'no-attachments-option'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'Resource', file: { size: 10 }, attachments: [{ type: 'file', name: 'doc.pdf' }] })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/full`)
+        .reply(200, 'col\nval\n', { 'Content-Type': 'text/csv' })
+
+      const resource = await getResource({
+        catalogConfig,
+        resourceId,
+        secrets: {},
+        importConfig: {},
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any) as any
+
+      assert.strictEqual(resource.metadataAttachments, undefined)
+      assert.strictEqual(resource.attachmentsFilePath, undefined)
+    })
+  })
+
+  /**
+   * Test suite for the resilience of the downloads
+   *
+   * Transient errors (5xx, timeouts, network errors) are retried with a backoff,
+   * interrupted files are resumed with a HTTP Range request, failed pages of lines
+   * are fetched again, and the downloaded files are checked against the dataset.
+   */
+  describe('test retries and integrity checks', () => {
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should retry the metadata request after a server error', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/retry-meta')
+        .reply(503, 'Service Unavailable')
+        .get('/data-fair/api/v1/datasets/retry-meta')
+        .reply(200, { id: 'retry-meta', title: 'Retry', file: { size: 10 }, schema: [] })
+        .get('/data-fair/api/v1/datasets/retry-meta/full')
+        .reply(200, 'col1\nval1\n')
+
+      const resource = await getResource(downloadContext(catalogConfig, 'retry-meta') as any)
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'col1\nval1\n')
+    })
+
+    it('should resume an interrupted file download with a range request', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/resume-file')
+        .reply(200, {
+          id: 'resume-file',
+          title: 'Resume',
+          file: { size: 20 },
+          storage: { dataFiles: [{ key: 'full', size: 20 }] },
+          schema: []
+        })
+        .get('/data-fair/api/v1/datasets/resume-file/full')
+        .reply(200, 'col1,col2\n', { 'Content-Length': '20' })
+        .get('/data-fair/api/v1/datasets/resume-file/full')
+        .matchHeader('Range', 'bytes=10-')
+        .reply(206, 'val1,val2\n')
+
+      const resource = await getResource(downloadContext(catalogConfig, 'resume-file') as any)
+      assert.ok(nock.isDone(), 'The download should have been resumed')
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'col1,col2\nval1,val2\n')
+    })
+
+    it('should reject a truncated file', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/truncated-file')
+        .reply(200, {
+          id: 'truncated-file',
+          title: 'Truncated',
+          file: { size: 100 },
+          storage: { dataFiles: [{ key: 'full', size: 100 }] },
+          schema: []
+        })
+        .get('/data-fair/api/v1/datasets/truncated-file/full')
+        .reply(200, 'col1,col2\nval1,val2\n')
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(catalogConfig, 'truncated-file') as any),
+        /Le fichier téléchargé est incomplet \(20 octets reçus, 100 attendus\)/
+      )
+    })
+
+    it('should fetch again a failed page of lines without restarting', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/retry-lines')
+        .reply(200, { id: 'retry-lines', title: 'Retry lines', count: 3, schema: [{ key: 'col1', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/retry-lines/lines?format=csv&size=10000&select=col1')
+        .reply(200, 'col1\n"multi\nline"\nval2\n', { Link: '<https://example.com/data-fair/api/v1/datasets/retry-lines/lines?page=2>; rel=next' })
+        .get('/data-fair/api/v1/datasets/retry-lines/lines?page=2')
+        .reply(502, 'Bad Gateway')
+        .get('/data-fair/api/v1/datasets/retry-lines/lines?page=2')
+        .reply(200, 'col1\nval3\n')
+
+      const resource = await getResource(downloadContext(catalogConfig, 'retry-lines', { fields: [{ key: 'col1' }] }) as any)
+      assert.ok(nock.isDone(), 'The failed page should have been fetched again')
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'col1\n"multi\nline"\nval2\nval3\n')
+    })
+
+    it('should reject lines missing compared to the dataset count', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/missing-lines')
+        .reply(200, { id: 'missing-lines', title: 'Missing lines', count: 3, schema: [{ key: 'col1', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/missing-lines/lines?format=json&size=10000&select=col1')
+        .reply(200, { total: 3, results: [{ col1: 'val1' }, { col1: 'val2' }] })
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(catalogConfig, 'missing-lines', { fields: [{ key: 'col1' }], format: 'jsonl' }) as any),
+        /Le fichier téléchargé est incomplet \(2 lignes reçues, 3 attendues\)/
+      )
+    })
+
+    it('should not retry a client error', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/forbidden')
+        .reply(403, 'Forbidden')
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(catalogConfig, 'forbidden') as any),
+        /403/
+      )
+      assert.ok(nock.isDone())
+    })
+  })
+
+  /**
+   * Test suite for the compression
+   *
+   * The downloads are transferred compressed (gzip or brotli) when the portal supports it,
+   * and the imported file can be stored compressed with gzip.
+   */
+  describe('test compression', () => {
+    const tmpDir = tmpdir()
+    const content = 'col1,col2\n' + 'value1,value2\n'.repeat(100)
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should decompress a file transferred with gzip', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/gzip-file')
+        .reply(200, { id: 'gzip-file', title: 'Gzip', file: { size: content.length }, storage: { dataFiles: [{ key: 'full', size: content.length }] }, schema: [] })
+        .get('/data-fair/api/v1/datasets/gzip-file/full')
+        .matchHeader('Accept-Encoding', 'gzip, br')
+        .reply(200, zlib.gzipSync(content), { 'Content-Encoding': 'gzip' })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'gzip-file') as any)
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), content)
+    })
+
+    it('should decompress the pages of lines transferred with brotli', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/brotli-lines')
+        .reply(200, { id: 'brotli-lines', title: 'Brotli', count: 100, schema: [{ key: 'col1', type: 'string' }, { key: 'col2', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/brotli-lines/lines?format=csv&size=10000&select=col1,col2')
+        .reply(200, zlib.brotliCompressSync(content), { 'Content-Encoding': 'br' })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'brotli-lines', { fields: [{ key: 'col1' }, { key: 'col2' }] }) as any)
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), content)
+    })
+
+    it('should store the imported file compressed with gzip', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/compressed')
+        .reply(200, { id: 'compressed', title: 'Compressed', file: { size: content.length }, storage: { dataFiles: [{ key: 'full', size: content.length }] }, schema: [] })
+        .get('/data-fair/api/v1/datasets/compressed/full')
+        .reply(200, content)
+
+      const resource = await getResource(downloadContext(catalogConfig, 'compressed', { compress: true }) as any) as any
+      assert.ok(resource.filePath.endsWith('compressed.csv.gz'))
+      assert.strictEqual(resource.format, 'csv')
+      assert.strictEqual(resource.mimeType, 'application/gzip')
+      assert.strictEqual(resource.compression, 'gzip')
+      assert.strictEqual(resource.uncompressedSize, content.length)
+      assert.strictEqual(resource.size, fs.statSync(resource.filePath).size)
+      assert.ok(resource.size < content.length)
+      assert.strictEqual(zlib.gunzipSync(fs.readFileSync(resource.filePath)).toString(), content)
+      assert.ok(!fs.existsSync(join(tmpDir, 'compressed.csv')))
+    })
+  })
+
+  /**
+   * Test suite for the error reporting
+   *
+   * The errors whose cause is identified (authentication, missing dataset, permission,
+   * unreachable portal, quota, invalid filter) are typed, carry the HTTP status and the url,
+   * and are reported in the logs with a guidance to fix them.
+   */
+  describe('test error reporting', () => {
+    const tmpDir = tmpdir()
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should report an unreachable portal when listing', async () => {
+      nock('https://unreachable.example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title')
+        .replyWithError({ message: 'getaddrinfo ENOTFOUND unreachable.example.com', code: 'ENOTFOUND' })
+
+      await assert.rejects(
+        async () => await catalogPlugin.list({ catalogConfig: { url: 'https://unreachable.example.com' }, secrets: {}, params: {} }),
+        (err: any) => {
+          assert.ok(err instanceof PortalUnreachableError)
+          assert.strictEqual(err.url, 'https://unreachable.example.com/data-fair/api/v1/catalog/datasets')
+          assert.match(err.i18n.en.message, /The Data Fair portal is unreachable/)
+          return true
+        }
+      )
+    })
+
+    it('should report a filter refused by the portal with its guidance in the logs', async () => {
+      const resourceId = 'refused-filter'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .reply(200, { id: resourceId, title: 'Refused filter', schema: [{ key: 'col1', type: 'string' }] })
+        .get(`/data-fair/api/v1/datasets/${resourceId}/lines?format=csv&size=10000&col1_eq=a`)
+        .reply(400, 'Colonne inconnue')
+
+      const errors: { msg: string, extra: any }[] = []
+      await assert.rejects(
+        async () => await getResource({
+          catalogConfig,
+          resourceId,
+          secrets: {},
+          importConfig: { filters: [{ type: 'eq', field: { key: 'col1' }, value: 'a' }] },
+          update: { metadata: true, schema: true },
+          tmpDir,
+          log: { ...logFunctions, error: async (msg: string, extra: any) => { errors.push({ msg, extra }) } }
+        } as any),
+        InvalidFilterError
+      )
+      assert.strictEqual(errors.length, 1)
+      assert.match(errors[0].msg, /Filtre invalide \(400/)
+      assert.match(errors[0].extra.guidance, /Vérifiez les filtres de la configuration/)
+      assert.strictEqual(errors[0].extra.status, 400)
+    })
+
+    it('should report an exceeded quota after the retries', async () => {
+      const resourceId = 'quota-exceeded'
+      nock(catalogConfig.url)
+        .get(`/data-fair/api/v1/datasets/${resourceId}`)
+        .times(retryOptions.retries + 1)
+        .reply(429, 'Too Many Requests')
+
+      await assert.rejects(
+        async () => await getResource({
+          catalogConfig,
+          resourceId,
+          secrets: {},
+          importConfig: {},
+          update: { metadata: true, schema: true },
+          tmpDir,
+          log: logFunctions
+        } as any),
+        /Quota dépassé sur le portail/
+      )
+    })
+  })
+
+  /**
+   * Test suite for the schema transformations
+   *
+   * The schema of the imported resource and the header of the downloaded file can be adapted:
+   * renamed columns, overridden types and formats, dropped calculated columns and annotations.
+   */
+  describe('test schema transformations', () => {
+    const dataset = (id: string) => ({
+      id,
+      title: 'Transformed',
+      file: { size: 10 },
+      schema: [
+        { key: 'code', type: 'string', title: 'Code', 'x-refersTo': 'http://rdf.insee.fr/def/geo#codeCommune', 'x-concept': { id: 'codeCommune' } },
+        { key: 'status', type: 'string', 'x-labels': { a: 'Actif' }, 'x-capabilities': { text: false } },
+        { key: 'date', type: 'string', format: 'date' },
+        { key: '_id', type: 'string', 'x-calculated': true }
+      ]
+    })
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should rename and retype the columns in the schema and in the CSV header', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/renamed')
+        .reply(200, dataset('renamed'))
+        .get('/data-fair/api/v1/datasets/renamed/lines?format=csv&size=10000&select=code,status,date,_id')
+        .reply(200, 'code,status,date,_id\n"01001",a,2024-01-01,x\n')
+
+      const resource = await getResource(downloadContext(catalogConfig, 'renamed', {
+        schemaTransforms: {
+          columns: [
+            { field: { key: 'code' }, key: 'code_commune', title: 'Code de la commune', type: 'integer' },
+            { field: { key: 'date' }, format: 'none' }
+          ]
+        }
+      }) as any)
+      assert.deepEqual(resource!.schema![0], { key: 'code_commune', type: 'integer', title: 'Code de la commune', 'x-refersTo': 'http://rdf.insee.fr/def/geo#codeCommune', 'x-concept': { id: 'codeCommune' } })
+      assert.deepEqual(resource!.schema![2], { key: 'date', type: 'string' })
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'code_commune,status,date,_id\n"01001",a,2024-01-01,x\n')
+    })
+
+    it('should drop the calculated columns', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/no-calculated')
+        .reply(200, dataset('no-calculated'))
+        .get('/data-fair/api/v1/datasets/no-calculated/lines?format=json&size=10000&select=code,status,date')
+        .reply(200, { total: 1, results: [{ code: '01001', status: 'a', date: '2024-01-01' }] })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'no-calculated', { format: 'jsonl', schemaTransforms: { dropCalculated: true } }) as any)
+      assert.deepEqual(resource!.schema!.map(field => field.key), ['code', 'status', 'date'])
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), '{"code":"01001","status":"a","date":"2024-01-01"}\n')
+    })
+
+    it('should remove the annotations that are not kept', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/no-annotations')
+        .reply(200, dataset('no-annotations'))
+        .get('/data-fair/api/v1/datasets/no-annotations/full')
+        .reply(200, 'code,status,date,_id\n')
+
+      const resource = await getResource(downloadContext(catalogConfig, 'no-annotations', {
+        schemaTransforms: { keepConcepts: false, keepLabels: false, keepCapabilities: false }
+      }) as any)
+      assert.deepEqual(resource!.schema![0], { key: 'code', type: 'string', title: 'Code' })
+      assert.deepEqual(resource!.schema![1], { key: 'status', type: 'string' })
+    })
+
+    it('should request the extension columns with their key in the dataset', async () => {
+      const extended = { ...dataset('extended'), schema: [...dataset('extended').schema, { key: '_siret.nom', type: 'string', 'x-extension': 'siret' }] }
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/extended')
+        .times(2)
+        .reply(200, extended)
+        .get('/data-fair/api/v1/datasets/extended/lines?format=csv&size=10000&select=code,status,date,_id,_siret.nom')
+        .reply(200, 'code,status,date,_id,_siret.nom\n"01001",a,2024-01-01,x,Mairie\n')
+        .get('/data-fair/api/v1/datasets/extended/lines?format=json&size=10000&select=code,status,date,_siret.nom')
+        .reply(200, { total: 1, results: [{ code: '01001', status: 'a', date: '2024-01-01', '_siret.nom': 'Mairie' }] })
+
+      const renamed = await getResource(downloadContext(catalogConfig, 'extended', { schemaTransforms: { columns: [{ field: { key: 'code' }, key: 'code_commune' }] } }) as any)
+      assert.deepEqual(renamed!.schema!.map(field => field.key), ['code_commune', 'status', 'date', '_id', 'siretnom'])
+      assert.strictEqual(renamed!.schema![4]['x-extension'], undefined)
+      assert.strictEqual(fs.readFileSync(renamed!.filePath, 'utf8'), 'code_commune,status,date,_id,siretnom\n"01001",a,2024-01-01,x,Mairie\n')
+
+      const dropped = await getResource(downloadContext(catalogConfig, 'extended', { format: 'jsonl', schemaTransforms: { dropCalculated: true } }) as any)
+      assert.strictEqual(fs.readFileSync(dropped!.filePath, 'utf8'), '{"code":"01001","status":"a","date":"2024-01-01","siretnom":"Mairie"}\n')
+      assert.ok(nock.isDone())
+    })
+  })
+
+  /**
+   * Test suite for the merged datasets
+   *
+   * The lines of several datasets can be imported in a single CSV file,
+   * concatenated (union) or joined on a key, with a merged schema.
+   */
+  describe('test merged datasets', () => {
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should concatenate the lines of yearly datasets with a source column', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/sales-2023')
+        .reply(200, { id: 'sales-2023', title: 'Sales 2023', schema: [{ key: 'shop', type: 'string' }, { key: 'amount', type: 'integer' }] })
+        .get('/data-fair/api/v1/datasets/sales-2024')
+        .reply(200, { id: 'sales-2024', title: 'Sales 2024', schema: [{ key: 'shop', type: 'string' }, { key: 'amount', type: 'number' }, { key: 'comment', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/sales-2023/lines?format=json&size=10000&select=shop,amount')
+        .reply(200, { results: [{ shop: 'A', amount: 10 }] })
+        .get('/data-fair/api/v1/datasets/sales-2024/lines?format=json&size=10000&select=shop,amount,comment')
+        .reply(200, { results: [{ shop: 'B', amount: 2.5, comment: 'new, shop' }] })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'sales-2023', { merge: { datasets: ['sales-2024'], mode: 'union', sourceColumn: 'year' } }) as any)
+      assert.deepEqual(resource!.schema, [
+        { key: 'year', type: 'string', title: 'Jeu de données source' },
+        { key: 'shop', type: 'string' },
+        { key: 'amount', type: 'string' },
+        { key: 'comment', type: 'string' }
+      ])
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'year,shop,amount,comment\nsales-2023,A,10,\nsales-2024,B,2.5,"new, shop"\n')
+    })
+
+    it('should join the lines of several datasets on a key', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/communes')
+        .reply(200, { id: 'communes', title: 'Communes', schema: [{ key: 'code', type: 'string' }, { key: 'name', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/population')
+        .reply(200, { id: 'population', title: 'Population', schema: [{ key: 'code', type: 'string' }, { key: 'name', type: 'string' }, { key: 'population', type: 'integer' }] })
+        .get('/data-fair/api/v1/datasets/population/lines?format=json&size=10000&select=code,name,population')
+        .reply(200, { results: [{ code: '01001', name: 'ABERGEMENT', population: 800 }, { code: '01001', name: 'DUPLICATE', population: 1 }] })
+        .get('/data-fair/api/v1/datasets/communes/lines?format=json&size=10000&select=code,name')
+        .reply(200, { results: [{ code: '01001', name: 'L\'Abergement' }, { code: '01002', name: 'Ambérieu' }] })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'communes', { merge: { datasets: ['population'], mode: 'join', joinKey: 'code' } }) as any)
+      assert.deepEqual(resource!.schema!.map(field => field.key), ['code', 'name', 'population_name', 'population'])
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'code,name,population_name,population\n01001,L\'Abergement,ABERGEMENT,800\n01002,Ambérieu,,\n')
+    })
+
+    it('should reject a join key missing in a dataset', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/communes')
+        .reply(200, { id: 'communes', title: 'Communes', schema: [{ key: 'code', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/other')
+        .reply(200, { id: 'other', title: 'Other', schema: [{ key: 'id', type: 'string' }] })
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(catalogConfig, 'communes', { merge: { datasets: ['other'], mode: 'join', joinKey: 'code' } }) as any),
+        /La clé de jointure code est absente du jeu de données other/
+      )
+    })
+  })
+
+  /**
+   * Test suite for the aggregated imports
+   *
+   * A summary of the lines computed by Data Fair can be imported instead of the lines:
+   * one row per group of values of the group-by columns, with the number of lines and the metrics of each group.
+   */
+  describe('test aggregated imports', () => {
+    const dataset = {
+      id: 'births',
+      title: 'Births',
+      count: 1000000,
+      schema: [
+        { key: 'commune', type: 'string', title: 'Commune' },
+        { key: 'year', type: 'integer', title: 'Année' },
+        { key: 'births', type: 'integer', title: 'Naissances' }
+      ]
+    }
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should import the metrics of the groups of values', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/births')
+        .reply(200, dataset)
+        .get('/data-fair/api/v1/datasets/births/values_agg?field=commune;year&agg_size=1000&size=0&metric=sum&metric_field=births&year_gte=2020')
+        .reply(200, {
+          total: 3,
+          aggs: [
+            { value: 'Vannes', total: 2, aggs: [{ value: 2020, total: 1, metric: 500 }, { value: 2021, total: 1, metric: 520 }] },
+            { value: 'Lorient', total: 1, aggs: [{ value: 2020, total: 1, metric: 400 }] }
+          ]
+        })
+        .get('/data-fair/api/v1/datasets/births/values_agg?field=commune;year&agg_size=1000&size=0&metric=max&metric_field=births&year_gte=2020')
+        .reply(200, {
+          total: 3,
+          aggs: [
+            { value: 'Vannes', total: 2, aggs: [{ value: 2020, total: 1, metric: 500 }, { value: 2021, total: 1, metric: 520 }] },
+            { value: 'Lorient', total: 1, aggs: [{ value: 2020, total: 1, metric: 400 }] }
+          ]
+        })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'births', {
+        filters: [{ type: 'gte', field: { key: 'year' }, value: '2020' }],
+        aggregation: {
+          groupBy: [{ key: 'commune' }, { key: 'year' }],
+          metrics: [{ type: 'count' }, { type: 'sum', field: { key: 'births' } }, { type: 'max', field: { key: 'births' }, key: 'max_births' }]
+        }
+      }) as any)
+      assert.deepEqual(resource!.schema, [
+        { key: 'commune', type: 'string', title: 'Commune' },
+        { key: 'year', type: 'integer', title: 'Année' },
+        { key: 'count', type: 'integer', title: 'Nombre de lignes' },
+        { key: 'births_sum', type: 'integer', title: 'Somme de Naissances' },
+        { key: 'max_births', type: 'integer', title: 'Maximum de Naissances' }
+      ])
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'commune,year,count,births_sum,max_births\nVannes,2020,1,500,500\nVannes,2021,1,520,520\nLorient,2020,1,400,400\n')
+    })
+
+    it('should compute the metrics on all the lines without group-by column', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/births')
+        .reply(200, dataset)
+        .get('/data-fair/api/v1/datasets/births/metric_agg?metric=avg&field=births')
+        .reply(200, { total: 1000000, metric: 12.5 })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'births', { aggregation: { metrics: [{ type: 'avg', field: { key: 'births' } }, { type: 'count' }] } }) as any)
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'births_avg,count\n12.5,1000000\n')
+    })
+
+    it('should require the column of a metric', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/births')
+        .reply(200, dataset)
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(catalogConfig, 'births', { aggregation: { metrics: [{ type: 'sum' }] } }) as any),
+        /La colonne de la métrique somme est nécessaire/
+      )
+    })
+  })
+
+  /**
+   * Test suite for the pagination of the lines
+   *
+   * The next pages are followed with their cursor, the header repeated on each page is skipped
+   * even if it contains quoted new lines, and the lines can be downloaded in parallel partitions.
+   */
+  describe('test pagination', () => {
+    const tmpDir = tmpdir()
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should follow the cursor of the next pages and skip the repeated headers', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/cursor')
+        .reply(200, { id: 'cursor', title: 'Cursor', count: 3, schema: [{ key: 'a', type: 'string' }, { key: 'b', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/cursor/lines?format=csv&size=10000&select=a,b')
+        .reply(200, '"multi\nline a",b\n1,2\n', { Link: '</data-fair/api/v1/datasets/cursor/lines?format=csv&size=10000&select=a,b&after=1>; rel="next"' })
+        .get('/data-fair/api/v1/datasets/cursor/lines?format=csv&size=10000&select=a,b&after=1')
+        .reply(200, '"multi\nline a",b\n3,4\n5,6\n')
+
+      const resource = await getResource(downloadContext(catalogConfig, 'cursor', { fields: [{ key: 'a' }, { key: 'b' }] }) as any)
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), '"multi\nline a",b\n1,2\n3,4\n5,6\n')
+    })
+
+    it('should stop a pagination looping on the same page', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/loop')
+        .reply(200, { id: 'loop', title: 'Loop', isRest: true, schema: [{ key: 'a', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/loop/lines?format=json&size=10000&select=a')
+        .reply(200, { results: [{ a: '1' }], next: 'https://example.com/data-fair/api/v1/datasets/loop/lines?format=json&size=10000&select=a' })
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(catalogConfig, 'loop', { format: 'jsonl', fields: [{ key: 'a' }] }) as any),
+        /La pagination du portail revient sur une page déjà téléchargée/
+      )
+    })
+
+    it('should download the partitions of the lines in parallel', async () => {
+      const linesUrl = '/data-fair/api/v1/datasets/partitioned/lines?format=csv&size=10000&select=year,value'
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/partitioned')
+        .reply(200, { id: 'partitioned', title: 'Partitioned', count: 4, schema: [{ key: 'year', type: 'integer' }, { key: 'value', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/partitioned/metric_agg?metric=min&field=year')
+        .reply(200, { total: 4, metric: 2000 })
+        .get('/data-fair/api/v1/datasets/partitioned/metric_agg?metric=max&field=year')
+        .reply(200, { total: 4, metric: 2020 })
+        .get(linesUrl + '&year_gte=2000&year_lt=2010')
+        .delay(20)
+        .reply(200, 'year,value\n2000,a\n2005,b\n')
+        .get(linesUrl + '&year_gte=2010&year_lte=2020')
+        .reply(200, 'year,value\n2020,c\n')
+        .get(linesUrl + '&year_nexists=true')
+        .reply(200, 'year,value\n,d\n')
+
+      const resource = await getResource(downloadContext(catalogConfig, 'partitioned', {
+        fields: [{ key: 'year' }, { key: 'value' }],
+        partitions: { count: 2, field: { key: 'year' } }
+      }) as any)
+      assert.ok(nock.isDone())
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'year,value\n2000,a\n2005,b\n2020,c\n,d\n')
+      assert.deepEqual(fs.readdirSync(tmpDir).filter(file => file.startsWith('partitioned.csv.part')), [])
+    })
+
+    it('should abort the other partitions when a partition fails', async () => {
+      const linesUrl = '/data-fair/api/v1/datasets/failed-partition/lines?format=csv&size=10000&select=year,value'
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/failed-partition')
+        .reply(200, { id: 'failed-partition', title: 'Failed partition', count: 4, schema: [{ key: 'year', type: 'integer' }, { key: 'value', type: 'string' }] })
+        .get('/data-fair/api/v1/datasets/failed-partition/metric_agg?metric=min&field=year')
+        .reply(200, { total: 4, metric: 2000 })
+        .get('/data-fair/api/v1/datasets/failed-partition/metric_agg?metric=max&field=year')
+        .reply(200, { total: 4, metric: 2020 })
+        .get(linesUrl + '&year_gte=2000&year_lt=2010')
+        .delay(200)
+        .reply(200, 'year,value\n2000,a\n', { Link: `<${linesUrl}&year_gte=2000&year_lt=2010&after=1>; rel="next"` })
+        .get(linesUrl + '&year_gte=2010&year_lte=2020')
+        .reply(400, 'Requête invalide')
+        .get(linesUrl + '&year_nexists=true')
+        .reply(200, 'year,value\n,d\n')
+      const nextPage = nock(catalogConfig.url)
+        .get(linesUrl + '&year_gte=2000&year_lt=2010&after=1')
+        .reply(200, 'year,value\n2005,b\n')
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(catalogConfig, 'failed-partition', {
+          fields: [{ key: 'year' }, { key: 'value' }],
+          partitions: { count: 2, field: { key: 'year' } }
+        }) as any),
+        /400/
+      )
+      // the first page of the pending partition would have been received by now
+      await new Promise(resolve => setTimeout(resolve, 300))
+      assert.ok(!nextPage.isDone(), 'The pending partition should be aborted')
+      assert.deepEqual(fs.readdirSync(tmpDir).filter(file => file.startsWith('failed-partition.csv.part')), [])
+    })
+  })
+
+  /**
+   * Test suite for the order of the lines and the deduplication
+   *
+   * The lines can be sorted, with the unique id of the lines as last sort key so that the order is stable,
+   * and the lines with the same values of some columns can be collapsed, even across pages.
+   */
+  describe('test sort and deduplication', () => {
+    const dataset = (id: string) => ({ id, title: 'Sorted', count: 5, file: { size: 100 }, schema: [{ key: 'code', type: 'string' }, { key: 'label', type: 'string' }] })
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should sort the lines and remove the duplicates across pages', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/sorted')
+        .reply(200, dataset('sorted'))
+        .get('/data-fair/api/v1/datasets/sorted/lines?format=csv&size=10000&sort=code,-label,_id')
+        .reply(200, 'code,label\na,"first, ""a"""\na,second a\nb,"multi\nline b"\n', { Link: '<https://example.com/data-fair/api/v1/datasets/sorted/lines?page=2>; rel=next' })
+        .get('/data-fair/api/v1/datasets/sorted/lines?page=2')
+        .reply(200, 'code,label\nb,second b\nc,first c\n')
+
+      const resource = await getResource(downloadContext(catalogConfig, 'sorted', {
+        sort: [{ field: { key: 'code' } }, { field: { key: 'label' }, order: 'desc' }],
+        deduplicate: [{ key: 'code' }]
+      }) as any)
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'code,label\na,"first, ""a"""\nb,"multi\nline b"\nc,first c\n')
+    })
+
+    it('should remove the duplicated items of a JSON import', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/json-duplicates')
+        .reply(200, dataset('json-duplicates'))
+        .get('/data-fair/api/v1/datasets/json-duplicates/lines?format=json&size=10000&select=code,label')
+        .reply(200, { results: [{ code: 'a', label: 'x' }, { code: 'a', label: 'x' }, { code: 'a', label: 'y' }] })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'json-duplicates', {
+        format: 'jsonl',
+        fields: [{ key: 'code' }, { key: 'label' }],
+        deduplicate: [{ key: 'code' }, { key: 'label' }]
+      }) as any)
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), '{"code":"a","label":"x"}\n{"code":"a","label":"y"}\n')
+    })
+
+    it('should continue after a page made only of duplicates', async () => {
+      const linesUrl = '/data-fair/api/v1/datasets/duplicated-page/lines?format=csv&size=10000&sort=code,_id'
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/duplicated-page')
+        .reply(200, dataset('duplicated-page'))
+        .get(linesUrl)
+        .reply(200, 'code,label\na,first\n', { Link: `<https://example.com${linesUrl}&after=1>; rel=next` })
+        .get(linesUrl + '&after=1')
+        .reply(200, 'code,label\na,second\n', { Link: `<https://example.com${linesUrl}&after=2>; rel=next` })
+        .get(linesUrl + '&after=2')
+        .reply(200, 'code,label\nb,third\n')
+
+      const resource = await getResource(downloadContext(catalogConfig, 'duplicated-page', {
+        sort: [{ field: { key: 'code' } }],
+        deduplicate: [{ key: 'code' }]
+      }) as any)
+      assert.ok(nock.isDone(), 'The page after the page of duplicates should be fetched')
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'code,label\na,first\nb,third\n')
+    })
+
+    it('should continue after a JSON page made only of duplicates', async () => {
+      const linesUrl = '/data-fair/api/v1/datasets/duplicated-json-page/lines?format=json&size=10000&select=code,label'
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/duplicated-json-page')
+        .reply(200, dataset('duplicated-json-page'))
+        .get(linesUrl)
+        .reply(200, { results: [{ code: 'a', label: 'first' }], next: `https://example.com${linesUrl}&after=1` })
+        .get(linesUrl + '&after=1')
+        .reply(200, { results: [{ code: 'a', label: 'second' }], next: `https://example.com${linesUrl}&after=2` })
+        .get(linesUrl + '&after=2')
+        .reply(200, { results: [{ code: 'b', label: 'third' }] })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'duplicated-json-page', {
+        format: 'jsonl',
+        fields: [{ key: 'code' }, { key: 'label' }],
+        deduplicate: [{ key: 'code' }]
+      }) as any)
+      assert.ok(nock.isDone(), 'The page after the page of duplicates should be fetched')
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), '{"code":"a","label":"first"}\n{"code":"b","label":"third"}\n')
+    })
+
+    it('should require the deduplicated columns in the imported columns', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/missing-key')
+        .reply(200, dataset('missing-key'))
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(catalogConfig, 'missing-key', { fields: [{ key: 'label' }], deduplicate: [{ key: 'code' }] }) as any),
+        /Les colonnes de dédoublonnage doivent faire partie des colonnes importées/
+      )
+    })
+
+    it('should reject the deduplication of a XLSX file', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/xlsx-duplicates')
+        .reply(200, dataset('xlsx-duplicates'))
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(catalogConfig, 'xlsx-duplicates', { format: 'xlsx', deduplicate: [{ key: 'code' }] }) as any),
+        /Le dédoublonnage n'est pas disponible au format XLSX/
+      )
+      assert.ok(nock.isDone())
+    })
+  })
+
+  /**
+   * Test suite for the sampling of the lines
+   *
+   * A part of the lines can be imported: the first lines in a given order, or a random sample.
+   */
+  describe('test sampling', () => {
+    const dataset = (id: string) => ({ id, title: 'Sampled', count: 1000, file: { size: 100000 }, schema: [{ key: 'name', type: 'string' }, { key: 'year', type: 'integer' }] })
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should import the first lines in the given order', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/first-lines')
+        .reply(200, dataset('first-lines'))
+        .get('/data-fair/api/v1/datasets/first-lines/lines?format=csv&size=3&sort=-year,name,_id')
+        .reply(200, 'name,year\n"a\nb",2024\nc,2023\n', { Link: '<https://example.com/data-fair/api/v1/datasets/first-lines/lines?page=2>; rel=next' })
+        .get('/data-fair/api/v1/datasets/first-lines/lines?page=2')
+        .reply(200, 'name,year\nd,2022\ne,2021\nf,2020\n', { Link: '<https://example.com/data-fair/api/v1/datasets/first-lines/lines?page=3>; rel=next' })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'first-lines', {
+        sort: [{ field: { key: 'year' }, order: 'desc' }, { field: { key: 'name' } }],
+        sampling: { mode: 'first', size: 3 }
+      }) as any)
+      assert.ok(nock.isDone())
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'name,year\n"a\nb",2024\nc,2023\nd,2022\n')
+    })
+
+    it('should import a random sample of the lines', async () => {
+      nock(catalogConfig.url)
+        .get('/data-fair/api/v1/datasets/random-lines')
+        .reply(200, dataset('random-lines'))
+        .get('/data-fair/api/v1/datasets/random-lines/lines?format=json&size=2&sort=_rand')
+        .reply(200, { total: 1000, results: [{ name: 'x', year: 2001 }, { name: 'y', year: 1999 }] })
+
+      const resource = await getResource(downloadContext(catalogConfig, 'random-lines', { format: 'jsonl', sampling: { mode: 'random', size: 2 } }) as any)
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), '{"name":"x","year":2001}\n{"name":"y","year":1999}\n')
+    })
+  })
+
+  /**
+   * Test suite for the scope of the catalog
+   *
+   * The catalog can be restricted to some owners, to the public or private datasets, and to the datasets of a publication site.
+   * The datasets outside of the scope are not listed, and cannot be imported by their id.
+   */
+  describe('test catalog scope', () => {
+    const scopedConfig: DataFairConfig = {
+      ...catalogConfig,
+      scope: { owners: [{ type: 'organization', id: 'org1', department: 'dep1' }], visibility: 'public', publicationSite: 'data-fair-portals:portal1' }
+    }
+    const dataset = { id: 'scoped', title: 'Scoped', owner: { type: 'organization', id: 'org1', department: 'dep1' }, visibility: 'public', publicationSites: ['data-fair-portals:portal1'], file: { size: 12 }, storage: { dataFiles: [{ key: 'full', size: 12 }] }, schema: [] }
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should only list the datasets of the scope', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&owner=organization:org1:dep1&visibility=public&publicationSites=data-fair-portals:portal1')
+        .reply(200, { count: 1, results: [{ id: 'scoped', title: 'Scoped' }] })
+
+      const res = await catalogPlugin.list({ catalogConfig: scopedConfig, secrets: {}, params: {} })
+      assert.strictEqual(res.count, 1)
+      assert.deepEqual(res.results.map(r => r.id), ['scoped'])
+    })
+
+    it('should narrow an owner filter to the owners of the scope', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&owner=organization:org1:dep1&visibility=public&publicationSites=data-fair-portals:portal1')
+        .reply(200, { count: 0, results: [] })
+
+      await catalogPlugin.list({ catalogConfig: scopedConfig, secrets: {}, params: { owner: 'organization:org1' } })
+      assert.ok(nock.isDone())
+
+      const res = await catalogPlugin.list({ catalogConfig: scopedConfig, secrets: {}, params: { owner: 'organization:org2' } })
+      assert.strictEqual(res.count, 0)
+      assert.deepEqual(res.results, [])
+    })
+
+    it('should list private and protected datasets with a private scope', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&visibility=private,protected')
+        .reply(200, { count: 0, results: [] })
+
+      await catalogPlugin.list({ catalogConfig: { ...catalogConfig, scope: { visibility: 'private' } }, secrets: {}, params: {} })
+      assert.ok(nock.isDone())
+    })
+
+    it('should import a dataset of the scope', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/datasets/scoped')
+        .reply(200, dataset)
+        .get('/data-fair/api/v1/datasets/scoped/full')
+        .reply(200, 'col1\nvalue1\n')
+
+      const resource = await getResource(downloadContext(scopedConfig, 'scoped') as any)
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), 'col1\nvalue1\n')
+    })
+
+    it('should reject a dataset outside of the scope', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/datasets/other-owner')
+        .reply(200, { ...dataset, id: 'other-owner', owner: { type: 'organization', id: 'org1' } })
+        .get('/data-fair/api/v1/datasets/private')
+        .reply(200, { ...dataset, id: 'private', visibility: 'private' })
+        .get('/data-fair/api/v1/datasets/unpublished')
+        .reply(200, { ...dataset, id: 'unpublished', publicationSites: [] })
+
+      await assert.rejects(
+        async () => await getResource(downloadContext(scopedConfig, 'other-owner') as any),
+        (err: Error) => err instanceof OutOfScopeError && /n'appartient pas à un des propriétaires du catalogue/.test(err.message)
+      )
+      await assert.rejects(
+        async () => await getResource(downloadContext(scopedConfig, 'private') as any),
+        /sa visibilité ne correspond pas à celle du catalogue/
+      )
+      await assert.rejects(
+        async () => await getResource(downloadContext(scopedConfig, 'unpublished') as any),
+        /n'est pas publié sur le site de publication du catalogue/
+      )
+    })
+  })
+
+  /**
+   * Test suite for the federated portals
+   *
+   * The datasets of other portals configured in the catalog are listed with the datasets of the portal of the catalog,
+   * their ids are prefixed with the id of their portal and they are imported from their portal with its API key.
+   */
+  describe('test federated portals', () => {
+    const tmpDir = tmpdir()
+    const federatedConfig: DataFairConfig = {
+      ...catalogConfig,
+      portals: [{ id: 'region', title: 'Région', url: 'https://region.example.com' }]
+    }
+    const secrets = { 'portals.region.apiKey': 'regionApiKey' }
+
+    beforeEach(() => {
+      nock.cleanAll()
+    })
+
+    it('should merge the datasets of the portals sorted by title', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&size=4&page=1')
+        .reply(200, { count: 3, results: [{ id: 'air', title: 'Air' }, { id: 'eau', title: 'Eau' }, { id: 'sols', title: 'Sols' }] })
+      nock('https://region.example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&size=4&page=1')
+        .matchHeader('x-apiKey', 'regionApiKey')
+        .reply(200, { count: 2, results: [{ id: 'bruit', title: 'Bruit' }, { id: 'climat', title: 'Climat', isRest: true }] })
+
+      const res = await catalogPlugin.list({ catalogConfig: federatedConfig, secrets, params: { page: 2, size: 2 } })
+      assert.strictEqual(res.count, 5)
+      assert.deepEqual(res.results.map(r => r.id), ['region:climat', 'eau'])
+      assert.strictEqual(res.results[0].description, 'Jeu de données éditable - Portail Région')
+      assert.strictEqual(res.results[1].description, undefined)
+    })
+
+    it('should skip an unreachable federated portal in the listing', async () => {
+      nock('https://example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&size=20&page=1')
+        .reply(200, { count: 1, results: [{ id: 'air', title: 'Air' }] })
+      nock('https://region.example.com')
+        .get('/data-fair/api/v1/catalog/datasets?sort=title&size=20&page=1')
+        .reply(404, { error: 'Not Found' })
+
+      const res = await catalogPlugin.list({ catalogConfig: federatedConfig, secrets, params: {} })
+      assert.strictEqual(res.count, 1)
+      assert.deepEqual(res.results.map(r => r.id), ['air'])
+    })
+
+    it('should import a dataset from its federated portal', async () => {
+      const content = 'col1\nvalue1\n'
+      nock('https://region.example.com')
+        .get('/data-fair/api/v1/datasets/climat')
+        .matchHeader('x-apiKey', 'regionApiKey')
+        .reply(200, { id: 'climat', title: 'Climat', file: { size: content.length }, storage: { dataFiles: [{ key: 'full', size: content.length }] }, schema: [] })
+        .get('/data-fair/api/v1/datasets/climat/full')
+        .matchHeader('x-apiKey', 'regionApiKey')
+        .reply(200, content)
+
+      const resource = await getResource({
+        catalogConfig: federatedConfig,
+        resourceId: 'region:climat',
+        secrets,
+        importConfig: {},
+        update: { metadata: true, schema: true },
+        tmpDir,
+        log: logFunctions
+      } as any)
+      assert.strictEqual(resource!.id, 'region:climat')
+      assert.strictEqual(fs.readFileSync(resource!.filePath, 'utf8'), content)
+    })
+
+    it('should reject a dataset of an unknown portal', async () => {
+      await assert.rejects(
+        async () => await getResource({ catalogConfig: federatedConfig, resourceId: 'other:climat', secrets, importConfig: {}, tmpDir, log: logFunctions } as any),
+        /Portail fédéré inconnu : other/
+      )
+    })
+  })
+
   describe('test plugin capabilities and metadata', () => {
     it('should have correct capabilities', () => {
       assert.ok(catalogPlugin.metadata?.capabilities, 'Plugin should have capabilities')
@@ -661,6 +2291,8 @@ describe('catalog-data-fair', () => {
       assert.ok(capabilities.includes('pagination'), 'Should support pagination')
       assert.ok(capabilities.includes('importConfig'), 'Should support importConfig')
       assert.ok(capabilities.includes('thumbnail'), 'Should support thumbnail')
+      assert.ok(capabilities.includes('publishDataset'), 'Should support publishDataset')
+      assert.ok(capabilities.includes('deletePublication'), 'Should support deletePublication')
     })
 
     it('should have correct metadata', () => {
@@ -0,0 +1,294 @@
+/**
+ * Tests for the publication functions of the catalog-data-fair plugin
+ *
+ * The publication functions are responsible for:
+ * - Creating or updating a dataset on the remote Data Fair instance
+ * - Uploading the file or the lines of the local dataset
+ * - Copying the metadata (title, description, keywords, license, schema)
+ * - Deleting the remote dataset when the publication is removed
+ */
+
+import type { DataFairConfig, DataFairDataset } from '#types'
+import type { CatalogPlugin } from '@data-fair/types-catalogs'
+import plugin from '../index.ts'
+import { PermissionDeniedError } from '../lib/errors.ts'
+import { logFunctions } from './test-utils.ts'
+import assert from 'assert'
+import nock from 'nock'
+import { describe, beforeEach, it } from 'node:test'
+
+const catalogPlugin: CatalogPlugin = plugin as CatalogPlugin
+
+/** Mock catalog configuration for testing purposes. */
+const catalogConfig: DataFairConfig = {
+  url: 'https://example.com',
+  apiKey: '*************************'
+}
+
+const secrets = { apiKey: 'testApiKey' }
+
+/** The local dataset to publish, served by another Data Fair instance. */
+const localDataset: DataFairDataset = {
+  id: 'local-dataset',
+  slug: 'local-dataset',
+  href: 'https://local.example/data-fair/api/v1/datasets/local-dataset',
+  title: 'Local Dataset',
+  description: 'A local dataset',
+  keywords: ['test'],
+  license: { title: 'Licence Ouverte', href: 'https://www.etalab.gouv.fr/licence-ouverte-open-licence' },
+  schema: [
+    { key: 'col1', type: 'string', 'x-cardinality': 2 },
+    { key: 'col2', type: 'integer' },
+    { key: '_id', type: 'string', 'x-calculated': true }
+  ]
+}
+
+const publishedSchema = [
+  { key: 'col1', type: 'string' },
+  { key: 'col2', type: 'integer' }
+]
+
+describe('catalog-data-fair publication functions', () => {
+  beforeEach(() => {
+    nock.cleanAll()
+  })
+
+  describe('test publishDataset method', () => {
+    /**
+     * Test the first publication of a file dataset
+     *
+     * The full file is downloaded from the local instance, uploaded on the remote
+     * instance and the metadata are patched on the created dataset.
+     */
+    it('should create a remote dataset from a file dataset', async () => {
+      nock('https://local.example')
+        .get('/data-fair/api/v1/datasets/local-dataset/full')
+        .reply(200, 'col1,col2\nval1,1\nval2,2\n', { 'Content-Type': 'text/csv' })
+
+      nock('https://example.com')
+        .post('/data-fair/api/v1/datasets', body => body.includes('filename="local-dataset.csv"') && body.includes('val2,2'))
+        .matchHeader('x-apiKey', 'testApiKey')
+        .reply(201, { id: 'remote-id', title: 'Local Dataset' })
+        .patch('/data-fair/api/v1/datasets/remote-id', {
+          title: 'Local Dataset',
+          description: 'A local dataset',
+          keywords: ['test'],
+          schema: publishedSchema,
+          license: localDataset.license
+        })
+        .matchHeader('x-apiKey', 'testApiKey')
+        .reply(200, { id: 'remote-id', title: 'Local Dataset', page: 'https://example.com/datasets/remote-id' })
+
+      const publication = await catalogPlugin.publishDataset({
+        catalogConfig,
+        secrets,
+        dataset: { ...localDataset, file: { size: 24 } },
+        publication: { isResource: false },
+        publicationSite: {},
+        log: logFunctions
+      } as any)
+
+      assert.ok(nock.isDone(), 'All the expected requests should have been made')
+      assert.deepEqual(publication.remoteDataset, { id: 'remote-id', title: 'Local Dataset', url: 'https://example.com/datasets/remote-id' })
+    })
+
+    /**
+     * Test the update of an existing publication of a file dataset
+     *
+     * The file of the existing remote dataset is replaced instead of creating a new dataset.
+     */
+    it('should update the remote dataset of an existing publication', async () => {
+      nock('https://local.example')
+        .get('/data-fair/api/v1/datasets/local-dataset/full')
+        .reply(200, 'col1,col2\nval1,1\n', { 'Content-Type': 'text/csv' })
+
+      nock('https://example.com')
+        .get('/data-fair/api/v1/datasets/remote-id')
+        .reply(200, { id: 'remote-id', title: 'Old title' })
+        .put('/data-fair/api/v1/datasets/remote-id')
+        .reply(200, { id: 'remote-id', title: 'Old title' })
+        .patch('/data-fair/api/v1/datasets/remote-id')
+        .reply(200, { id: 'remote-id', title: 'Local Dataset', page: 'https://example.com/datasets/remote-id' })
+
+      const publication = await catalogPlugin.publishDataset({
+        catalogConfig,
+        secrets,
+        dataset: { ...localDataset, file: { size: 17 } },
+        publication: { isResource: false, remoteDataset: { id: 'remote-id', title: 'Old title', url: '' } },
+        publicationSite: {},
+        log: logFunctions
+      } as any)
+
+      assert.ok(nock.isDone(), 'All the expected requests should have been made')
+      assert.strictEqual(publication.remoteDataset?.title, 'Local Dataset')
+    })
+
+    /**
+     * Test the publication of a dataset without file (REST or virtual)
+     *
+     * A remote REST dataset is created and the lines are copied page by page.
+     */
+    it('should create a remote REST dataset and copy the lines', async () => {
+      nock('https://local.example')
+        .get('/data-fair/api/v1/datasets/local-dataset/lines?size=10000&select=col1,col2')
+        .reply(200, {
+          total: 3,
+          results: [{ col1: 'val1', col2: 1, _id: 'a' }, { col1: 'val2', col2: 2, _id: 'b' }],
+          next: 'https://local.example/data-fair/api/v1/datasets/local-dataset/lines?size=10000&select=col1,col2&after=2'
+        })
+        .get('/data-fair/api/v1/datasets/local-dataset/lines?size=10000&select=col1,col2&after=2')
+        .reply(200, { total: 3, results: [{ col1: 'val3', col2: 3, _id: 'c' }] })
+
+      nock('https://example.com')
+        .post('/data-fair/api/v1/datasets', body => body.isRest === true && body.schema.length === 2)
+        .reply(201, { id: 'remote-rest', title: 'Local Dataset', page: 'https://example.com/datasets/remote-rest' })
+        .post('/data-fair/api/v1/datasets/remote-rest/_bulk_lines', [{ col1: 'val1', col2: 1 }, { col1: 'val2', col2: 2 }])
+        .reply(200, { nbOk: 2 })
+        .post('/data-fair/api/v1/datasets/remote-rest/_bulk_lines', [{ col1: 'val3', col2: 3 }])
+        .reply(200, { nbOk: 1 })
+
+      const publication = await catalogPlugin.publishDataset({
+        catalogConfig,
+        secrets,
+        dataset: localDataset,
+        publication: { isResource: false },
+        publicationSite: {},
+        log: logFunctions
+      } as any)
+
+      assert.ok(nock.isDone(), 'All the expected requests should have been made')
+      assert.strictEqual(publication.remoteDataset?.id, 'remote-rest')
+    })
+
+    /**
+     * Test the publication of a private dataset
+     *
+     * The local dataset is read with the API key of the local Data Fair,
+     * and the uploaded file keeps the name and the format of the local file.
+     */
+    it('should read the local dataset with the local API key and keep the name of its file', async () => {
+      nock('https://local.example')
+        .get('/data-fair/api/v1/datasets/local-dataset/full')
+        .matchHeader('x-apiKey', 'localApiKey')
+        .reply(200, '{"type":"FeatureCollection","features":[]}', { 'Content-Type': 'application/geo+json' })
+
+      nock('https://example.com')
+        .post('/data-fair/api/v1/datasets', body => body.includes('filename="communes.geojson"'))
+        .reply(201, { id: 'remote-id', title: 'Local Dataset' })
+        .patch('/data-fair/api/v1/datasets/remote-id')
+        .reply(200, { id: 'remote-id', title: 'Local Dataset', page: 'https://example.com/datasets/remote-id' })
+
+      await catalogPlugin.publishDataset({
+        catalogConfig,
+        secrets: { ...secrets, localApiKey: 'localApiKey' },
+        dataset: { ...localDataset, file: { name: 'communes.geojson', size: 42, mimetype: 'application/geo+json' } },
+        publication: { isResource: false },
+        publicationSite: {},
+        log: logFunctions
+      } as any)
+
+      assert.ok(nock.isDone(), 'All the expected requests should have been made')
+    })
+
+    it('should read the lines of the local dataset with the local API key', async () => {
+      nock('https://local.example')
+        .get('/data-fair/api/v1/datasets/local-dataset/lines?size=10000&select=col1,col2')
+        .matchHeader('x-apiKey', 'localApiKey')
+        .reply(200, { total: 1, results: [{ col1: 'val1', col2: 1 }] })
+
+      nock('https://example.com')
+        .post('/data-fair/api/v1/datasets')
+        .reply(201, { id: 'remote-rest', title: 'Local Dataset' })
+        .post('/data-fair/api/v1/datasets/remote-rest/_bulk_lines', [{ col1: 'val1', col2: 1 }])
+        .reply(200, { nbOk: 1 })
+
+      await catalogPlugin.publishDataset({
+        catalogConfig,
+        secrets: { ...secrets, localApiKey: 'localApiKey' },
+        dataset: localDataset,
+        publication: { isResource: false },
+        publicationSite: {},
+        log: logFunctions
+      } as any)
+
+      assert.ok(nock.isDone(), 'All the expected requests should have been made')
+    })
+
+    it('should report a private local dataset without local API key', async () => {
+      nock('https://local.example')
+        .get('/data-fair/api/v1/datasets/local-dataset/full')
+        .reply(403, 'Permission manquante')
+
+      await assert.rejects(
+        async () => await catalogPlugin.publishDataset({
+          catalogConfig,
+          secrets,
+          dataset: { ...localDataset, file: { name: 'local-dataset.csv', size: 17 } },
+          publication: { isResource: false },
+          publicationSite: {},
+          log: logFunctions
+        } as any),
+        /la clé API du Data Fair local est nécessaire/
+      )
+    })
+
+    it('should fail without API key', async () => {
+      await assert.rejects(
+        async () => await catalogPlugin.publishDataset({
+          catalogConfig: { url: 'https://example.com' },
+          secrets: {},
+          dataset: localDataset,
+          publication: { isResource: false },
+          publicationSite: {},
+          log: logFunctions
+        } as any),
+        /Une clé API est nécessaire/i
+      )
+    })
+
+    it('should report remote errors', async () => {
+      nock('https://local.example')
+        .get('/data-fair/api/v1/datasets/local-dataset/full')
+        .reply(200, 'col1,col2\nval1,1\n', { 'Content-Type': 'text/csv' })
+      nock('https://example.com')
+        .post('/data-fair/api/v1/datasets')
+        .reply(403, 'Permission manquante')
+
+      await assert.rejects(
+        async () => await catalogPlugin.publishDataset({
+          catalogConfig,
+          secrets,
+          dataset: { ...localDataset, file: { size: 17 } },
+          publication: { isResource: false },
+          publicationSite: {},
+          log: logFunctions
+        } as any),
+        (err: any) => {
+          assert.ok(err instanceof PermissionDeniedError)
+          assert.match(err.message, /Permission refusée par le portail \(403 - Permission manquante\)/)
+          return true
+        }
+      )
+    })
+  })
+
+  describe('test deletePublication method', () => {
+    it('should delete the remote dataset', async () => {
+      nock('https://example.com')
+        .delete('/data-fair/api/v1/datasets/remote-id')
+        .matchHeader('x-apiKey', 'testApiKey')
+        .reply(204)
+
+      await catalogPlugin.deletePublication({ catalogConfig, secrets, datasetId: 'remote-id', log: logFunctions } as any)
+      assert.ok(nock.isDone(), 'The remote dataset should have been deleted')
+    })
+
+    it('should ignore an already deleted remote dataset', async () => {
+      nock('https://example.com')
+        .delete('/data-fair/api/v1/datasets/remote-id')
+        .reply(404)
+
+      await catalogPlugin.deletePublication({ catalogConfig, secrets, datasetId: 'remote-id', log: logFunctions } as any)
+    })
+  })
+})
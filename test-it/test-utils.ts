@@ -1,8 +1,10 @@
-import type { LogFunctions } from '@data-fair/types-catalogs'
+import type { DataFairConfig, ImportConfig } from '#types'
+import type { GetResourceContext, LogFunctions } from '@data-fair/types-catalogs'
 import chalk from 'chalk'
 import draftlog from 'draftlog'
 import dayjs from 'dayjs'
 import localizedFormat from 'dayjs/plugin/localizedFormat.js'
+import { tmpdir } from 'os'
 
 draftlog.into(console)
 dayjs.extend(localizedFormat)
@@ -49,3 +51,17 @@ export const logFunctions: LogFunctions = {
     else tasksDraftLog[taskKey](chalk.cyanBright(msg))
   }
 }
+
+/**
+ * Builds the context of the import of a resource, updating its metadata and its schema,
+ * with the files downloaded in the temporary directory of the system.
+ */
+export const downloadContext = (catalogConfig: DataFairConfig, resourceId: string, importConfig: ImportConfig = {}) => ({
+  catalogConfig,
+  resourceId,
+  secrets: {},
+  importConfig,
+  update: { metadata: true, schema: true },
+  tmpDir: tmpdir(),
+  log: logFunctions
+}) as GetResourceContext<DataFairConfig>
@@ -1,3 +1,4 @@
 export { schema as configSchema, assertValid as assertConfigValid, type DataFairConfig } from './catalogConfig/index.ts'
 export { schema as importConfigSchema, assertValid as assertImportConfigValid, type ConfigurationDeLImport as ImportConfig } from './importConfig/index.ts'
+export { schema as listFiltersSchema, type ListFilters } from './listFilters/index.ts'
 export type { DataFairCatalog, DataFairDataset } from './datafairSchemas/index.ts'
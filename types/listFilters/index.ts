@@ -0,0 +1 @@
+export * from './.type/index.js'